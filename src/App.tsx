@@ -16,12 +16,20 @@ import RegisterGroundOwner from "./pages/RegisterGroundOwner";
 import BecomeOrganizer from "./pages/BecomeOrganizer";
 import LiveAuctions from "./pages/LiveAuctions";
 import LiveAuction from "./pages/LiveAuction";
+import AuctionScreen from "./pages/AuctionScreen";
 import NotFound from "./pages/NotFound";
 import About from "./pages/About";
 import CreateTeams from "./pages/CreateTeams";
 import ViewTeams from "./pages/ViewTeams";
 import CreateCaptains from "./pages/CreateCaptains";
 import ViewCaptainVotes from "./pages/ViewCaptainVotes";
+import AuctionConsole from "./pages/AuctionConsole";
+import DraftBoard from "./pages/DraftBoard";
+import PracticeAuction from "./pages/PracticeAuction";
+import AuctionResults from "./pages/AuctionResults";
+import AuctionReplay from "./pages/AuctionReplay";
+import AuctionAnalytics from "./pages/AuctionAnalytics";
+import Trades from "./pages/Trades";
 
 const queryClient = new QueryClient();
 
@@ -42,6 +50,13 @@ const App = () => (
             <Route path="/tournaments/:id/teams" element={<ViewTeams />} />
             <Route path="/tournaments/:id/captains/create" element={<CreateCaptains />} />
             <Route path="/tournaments/:id/captains/votes" element={<ViewCaptainVotes />} />
+            <Route path="/tournaments/:id/auction/console" element={<AuctionConsole />} />
+            <Route path="/tournaments/:id/draft" element={<DraftBoard />} />
+            <Route path="/tournaments/:id/practice" element={<PracticeAuction />} />
+            <Route path="/tournaments/:id/results" element={<AuctionResults />} />
+            <Route path="/tournaments/:id/replay" element={<AuctionReplay />} />
+            <Route path="/tournaments/:id/analytics" element={<AuctionAnalytics />} />
+            <Route path="/tournaments/:id/trades" element={<Trades />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/register" element={<Register />} />
             <Route path="/register-umpire" element={<RegisterUmpire />} />
@@ -49,6 +64,7 @@ const App = () => (
             <Route path="/become-organizer" element={<BecomeOrganizer />} />
             <Route path="/auctions" element={<LiveAuctions />} />
             <Route path="/auctions/:id" element={<LiveAuction />} />
+            <Route path="/auctions/:id/screen" element={<AuctionScreen />} />
             <Route path="/about" element={<About />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
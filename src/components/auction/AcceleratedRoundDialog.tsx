@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { AuctionPlayerProfile, AuctionPoolEntry } from "@/hooks/use-auction-room";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+
+interface AcceleratedRoundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  currentRound: number;
+  unsold: AuctionPoolEntry[];
+  profiles: Record<string, AuctionPlayerProfile>;
+}
+
+export function AcceleratedRoundDialog({
+  open,
+  onOpenChange,
+  tournamentId,
+  currentRound,
+  unsold,
+  profiles,
+}: AcceleratedRoundDialogProps) {
+  // Every unsold player is picked by default; the dialog is mounted per use
+  const [selected, setSelected] = useState(() => unsold.map((entry) => entry.player_id));
+  const [reduction, setReduction] = useState("0");
+  const [starting, setStarting] = useState(false);
+
+  const allSelected = unsold.length > 0 && selected.length === unsold.length;
+
+  const toggle = (playerId: string, checked: boolean) => {
+    setSelected((prev) =>
+      checked ? [...prev, playerId] : prev.filter((id) => id !== playerId)
+    );
+  };
+
+  const handleStart = async () => {
+    const reductionNum = parseFloat(reduction) || 0;
+    if (reductionNum < 0 || reductionNum >= 100) {
+      toast({
+        title: "Validation Error",
+        description: "The base price reduction must be between 0 and 99 percent.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStarting(true);
+    const { data, error } = await supabase.rpc("start_accelerated_round", {
+      _tournament_id: tournamentId,
+      _player_ids: allSelected ? undefined : selected,
+      _reduction_pct: reductionNum,
+    });
+    setStarting(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: `Round ${data} Started`,
+      description: `${selected.length} player${selected.length === 1 ? "" : "s"} re-queued for auction.`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Start Round {currentRound + 1}
+          </DialogTitle>
+          <DialogDescription>
+            Put unsold players back in the queue, optionally at a lower base price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="reduction">Base Price Reduction (%)</Label>
+            <Input
+              id="reduction"
+              type="number"
+              min="0"
+              max="99"
+              value={reduction}
+              onChange={(e) => setReduction(e.target.value)}
+              placeholder="e.g., 50"
+            />
+            <p className="text-xs text-muted-foreground">
+              Applied to each player's category base price, not their last base price.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Players</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setSelected(allSelected ? [] : unsold.map((e) => e.player_id))}
+              >
+                {allSelected ? "Clear all" : "Select all"}
+              </Button>
+            </div>
+            <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+              {unsold.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No unsold players.
+                </p>
+              ) : (
+                unsold.map((entry) => (
+                  <label
+                    key={entry.id}
+                    className="flex items-center gap-3 px-3 py-2 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={selected.includes(entry.player_id)}
+                      onCheckedChange={(checked) => toggle(entry.player_id, checked === true)}
+                    />
+                    <span className="flex-1 text-sm font-medium">
+                      {profiles[entry.player_id]?.full_name || "Player"}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {entry.auction_category || "Unassigned"} · {formatCurrency(entry.base_price)}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={handleStart}
+              disabled={starting || selected.length === 0}
+            >
+              {starting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start Round
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,492 @@
+import { useState, useEffect, useMemo } from "react";
+import { Search, Gavel, ListOrdered, RefreshCw, RotateCcw, ArrowUp, ArrowDown, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { AuctionPlayerProfile, AuctionPoolEntry, AuctionTeam } from "@/hooks/use-auction-room";
+import { AcceleratedRoundDialog } from "@/components/auction/AcceleratedRoundDialog";
+import {
+  formatCurrency,
+  getAuctionErrorToast,
+  getCategoryBadgeColor,
+  getLotStatusBadgeColor,
+  getLotStatusLabel,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
+
+const PLAYER_CATEGORIES = ["a_plus", "a", "b", "c"] as const;
+// Select value for a lot with no previous team
+const NO_PREVIOUS_TEAM = "none";
+type PlayerCategory = (typeof PLAYER_CATEGORIES)[number];
+
+interface AuctionCategory {
+  id: string;
+  category: string;
+  base_price: number;
+}
+
+interface AuctionPoolManagerProps {
+  tournamentId: string;
+  pool: AuctionPoolEntry[];
+  profiles: Record<string, AuctionPlayerProfile>;
+  teams: AuctionTeam[];
+  rtmEnabled: boolean;
+  currentRound: number;
+  disabled: boolean;
+  onNominate: (playerId: string) => void;
+}
+
+export function AuctionPoolManager({
+  tournamentId,
+  pool,
+  profiles,
+  teams,
+  rtmEnabled,
+  currentRound,
+  disabled,
+  onNominate,
+}: AuctionPoolManagerProps) {
+  const [categories, setCategories] = useState<AuctionCategory[]>([]);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [building, setBuilding] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [roundDialogOpen, setRoundDialogOpen] = useState(false);
+
+  // Bulk category assignment
+  const [bulkPlayerCategory, setBulkPlayerCategory] = useState<PlayerCategory | "">("");
+  const [bulkAuctionCategory, setBulkAuctionCategory] = useState("");
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const { data, error } = await supabase
+        .from("auction_config")
+        .select("id, category, base_price")
+        .eq("tournament_id", tournamentId)
+        .eq("is_active", true)
+        .order("base_price", { ascending: false });
+
+      if (!error) setCategories(data || []);
+    };
+
+    fetchCategories();
+  }, [tournamentId]);
+
+  const filtered = useMemo(
+    () =>
+      pool.filter((entry) => {
+        const name = profiles[entry.player_id]?.full_name || "";
+        return (
+          (statusFilter === "all" || entry.status === statusFilter) &&
+          name.toLowerCase().includes(search.toLowerCase())
+        );
+      }),
+    [pool, profiles, search, statusFilter]
+  );
+
+  const nextUp = pool.find((entry) => entry.is_included && entry.status === "upcoming");
+  const unsold = pool.filter((entry) => entry.is_included && entry.status === "unsold");
+
+  const handleBuild = async () => {
+    setBuilding(true);
+    const { data, error } = await supabase.rpc("build_auction_pool", {
+      _tournament_id: tournamentId,
+    });
+    setBuilding(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Pool Updated",
+      description: data
+        ? `${data} approved player${data === 1 ? "" : "s"} added to the pool.`
+        : "All approved players are already in the pool.",
+    });
+  };
+
+  const updateEntry = async (
+    entry: AuctionPoolEntry,
+    changes: Partial<
+      Pick<AuctionPoolEntry, "is_included" | "status" | "auction_category" | "base_price" | "previous_team_id">
+    >
+  ) => {
+    setSavingId(entry.id);
+    try {
+      const { error } = await supabase
+        .from("auction_pool")
+        .update(changes)
+        .eq("id", entry.id);
+
+      if (error) throw error;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to update player.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCategoryChange = (entry: AuctionPoolEntry, category: string) => {
+    const config = categories.find((c) => c.category === category);
+    if (!config) return;
+    updateEntry(entry, { auction_category: config.category, base_price: config.base_price });
+  };
+
+  const handleBulkAssign = async () => {
+    const config = categories.find((c) => c.category === bulkAuctionCategory);
+    if (!config || !bulkPlayerCategory) return;
+
+    try {
+      const { error } = await supabase
+        .from("auction_pool")
+        .update({ auction_category: config.category, base_price: config.base_price })
+        .eq("tournament_id", tournamentId)
+        .eq("player_category", bulkPlayerCategory)
+        .in("status", ["upcoming", "unsold"]);
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: `${getPlayerCategoryLabel(bulkPlayerCategory)} players moved to ${config.category}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to assign category.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Swap lot_order with the neighbouring lot in the full pool order
+  const handleMove = async (entry: AuctionPoolEntry, direction: -1 | 1) => {
+    const index = pool.findIndex((e) => e.id === entry.id);
+    const neighbour = pool[index + direction];
+    if (!neighbour) return;
+
+    setSavingId(entry.id);
+    try {
+      const [first, second] = await Promise.all([
+        supabase.from("auction_pool").update({ lot_order: neighbour.lot_order }).eq("id", entry.id),
+        supabase.from("auction_pool").update({ lot_order: entry.lot_order }).eq("id", neighbour.id),
+      ]);
+
+      if (first.error) throw first.error;
+      if (second.error) throw second.error;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to reorder players.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5 text-primary" />
+          Auction Pool
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleBuild} disabled={building}>
+            {building ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Sync Approved Players
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled || unsold.length === 0}
+            onClick={() => setRoundDialogOpen(true)}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Re-auction Unsold
+          </Button>
+          <Button
+            size="sm"
+            disabled={disabled || !nextUp}
+            onClick={() => nextUp && onNominate(nextUp.player_id)}
+          >
+            <Gavel className="h-4 w-4 mr-2" />
+            Nominate Next
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search players"
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {["upcoming", "bidding", "sold", "unsold"].map((status) => (
+                <SelectItem key={status} value={status}>
+                  {getLotStatusLabel(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {categories.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-3 p-3 rounded-lg bg-muted/50">
+            <Select
+              value={bulkPlayerCategory}
+              onValueChange={(value) => setBulkPlayerCategory(value as PlayerCategory)}
+            >
+              <SelectTrigger className="sm:w-40">
+                <SelectValue placeholder="Player grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYER_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {getPlayerCategoryLabel(category)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={bulkAuctionCategory} onValueChange={setBulkAuctionCategory}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue placeholder="Auction category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((config) => (
+                  <SelectItem key={config.id} value={config.category}>
+                    {config.category} ({formatCurrency(config.base_price)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="secondary"
+              onClick={handleBulkAssign}
+              disabled={!bulkPlayerCategory || !bulkAuctionCategory}
+            >
+              Assign
+            </Button>
+          </div>
+        )}
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Base Price</TableHead>
+                {rtmEnabled && <TableHead>Previous Team</TableHead>}
+                <TableHead>Status</TableHead>
+                <TableHead>Include</TableHead>
+                <TableHead className="w-44"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={rtmEnabled ? 8 : 7} className="text-center py-8 text-muted-foreground">
+                    {pool.length === 0
+                      ? "The pool is empty. Sync approved players to build it."
+                      : "No players match these filters."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((entry) => {
+                  const profile = profiles[entry.player_id];
+                  const locked = entry.status === "sold" || entry.status === "bidding";
+                  const saving = savingId === entry.id;
+
+                  return (
+                    <TableRow key={entry.id} className={entry.is_included ? "" : "opacity-50"}>
+                      <TableCell className="text-muted-foreground">{entry.lot_order}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{profile?.full_name || "Player"}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            {getPlayerTypeLabel(entry.player_type)}
+                          </span>
+                          {entry.player_category && (
+                            <Badge className={getCategoryBadgeColor(entry.player_category)}>
+                              {getPlayerCategoryLabel(entry.player_category)}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {categories.length > 0 ? (
+                          <Select
+                            value={entry.auction_category ?? undefined}
+                            onValueChange={(value) => handleCategoryChange(entry, value)}
+                            disabled={locked || saving}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {categories.map((config) => (
+                                <SelectItem key={config.id} value={config.category}>
+                                  {config.category}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {entry.status === "sold" && entry.sold_price !== null
+                          ? formatCurrency(entry.sold_price)
+                          : formatCurrency(entry.base_price)}
+                      </TableCell>
+                      {rtmEnabled && (
+                        <TableCell>
+                          <Select
+                            value={entry.previous_team_id ?? NO_PREVIOUS_TEAM}
+                            onValueChange={(value) =>
+                              updateEntry(entry, {
+                                previous_team_id: value === NO_PREVIOUS_TEAM ? null : value,
+                              })
+                            }
+                            disabled={locked || saving}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_PREVIOUS_TEAM}>None</SelectItem>
+                              {teams.map((team) => (
+                                <SelectItem key={team.id} value={team.id}>
+                                  {team.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <div className="space-y-1">
+                          {locked ? (
+                            <Badge className={getLotStatusBadgeColor(entry.status)}>
+                              {getLotStatusLabel(entry.status)}
+                            </Badge>
+                          ) : (
+                            <Select
+                              value={entry.status}
+                              onValueChange={(value) => updateEntry(entry, { status: value })}
+                              disabled={saving}
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="upcoming">{getLotStatusLabel("upcoming")}</SelectItem>
+                                <SelectItem value="unsold">{getLotStatusLabel("unsold")}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {(entry.sold_round ?? entry.round) > 1 && (
+                            <p className="text-xs text-muted-foreground">
+                              Round {entry.sold_round ?? entry.round}
+                            </p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={entry.is_included}
+                          onCheckedChange={(checked) => updateEntry(entry, { is_included: checked })}
+                          disabled={locked || saving}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 justify-end">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleMove(entry, -1)}
+                            disabled={saving || pool[0]?.id === entry.id}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleMove(entry, 1)}
+                            disabled={saving || pool[pool.length - 1]?.id === entry.id}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={disabled || locked || !entry.is_included}
+                            onClick={() => onNominate(entry.player_id)}
+                          >
+                            Nominate
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      {roundDialogOpen && (
+        <AcceleratedRoundDialog
+          open={roundDialogOpen}
+          onOpenChange={setRoundDialogOpen}
+          tournamentId={tournamentId}
+          currentRound={currentRound}
+          unsold={unsold}
+          profiles={profiles}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Bot, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+
+interface AutoBidDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  teamName: string;
+  playerId: string;
+  playerName: string;
+  basePrice: number;
+  currentMax?: number;
+  onSaved: () => void;
+}
+
+export function AutoBidDialog({
+  open,
+  onOpenChange,
+  teamId,
+  teamName,
+  playerId,
+  playerName,
+  basePrice,
+  currentMax,
+  onSaved,
+}: AutoBidDialogProps) {
+  // Mounted per use, so the form starts from the saved ceiling
+  const [maxAmount, setMaxAmount] = useState(currentMax?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const maxNum = parseFloat(maxAmount);
+    if (isNaN(maxNum) || maxNum < basePrice) {
+      toast({
+        title: "Validation Error",
+        description: `The ceiling must be at least the base price of ${formatCurrency(basePrice)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("set_auto_bid", {
+      _team_id: teamId,
+      _player_id: playerId,
+      _max_amount: maxNum,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Auto-Bid Set",
+      description: `${teamName} will bid up to ${formatCurrency(maxNum)} for ${playerName}.`,
+    });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  const handleClear = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("auto_bids")
+        .delete()
+        .eq("team_id", teamId)
+        .eq("player_id", playerId);
+
+      if (error) throw error;
+      toast({ title: "Auto-Bid Removed", description: `No more auto-bids for ${playerName}.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to remove auto-bid.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bot className="h-5 w-5" />
+            Auto-Bid for {playerName}
+          </DialogTitle>
+          <DialogDescription>
+            The server bids for {teamName} one increment at a time, up to your ceiling.
+            Other teams never see the ceiling.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="maxAmount">Ceiling (₹)</Label>
+            <Input
+              id="maxAmount"
+              type="number"
+              min={basePrice}
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              placeholder={`At least ${basePrice}`}
+            />
+            <p className="text-xs text-muted-foreground">
+              Auto-bids stop early if a bid would break your max bid or squad rules.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Auto-Bid
+            </Button>
+            {currentMax !== undefined && (
+              <Button type="button" variant="outline" onClick={handleClear} disabled={saving}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { Gavel, Timer, Play, Pause, Square, CheckCircle2, XCircle, Loader2, RefreshCcw, Lock, Eye } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { AuctionBid, AuctionPlayerProfile, AuctionState } from "@/hooks/use-auction-room";
+import {
+  formatCurrency,
+  getCategoryBadgeColor,
+  getInitials,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
+
+interface ConsoleLotCardProps {
+  state: AuctionState | null;
+  player?: AuctionPlayerProfile;
+  highestBid: AuctionBid | null;
+  leadingTeamName?: string;
+  bidCount: number;
+  timeLeft: number | null;
+  rtmTeamName?: string;
+  rtmTimeLeft: number | null;
+  sealed: boolean;
+  busy: boolean;
+  onOpenBidding: () => void;
+  onCloseBidding: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onReveal: () => void;
+  onSold: () => void;
+  onUnsold: () => void;
+}
+
+export function ConsoleLotCard({
+  state,
+  player,
+  highestBid,
+  leadingTeamName,
+  bidCount,
+  timeLeft,
+  rtmTeamName,
+  rtmTimeLeft,
+  sealed,
+  busy,
+  onOpenBidding,
+  onCloseBidding,
+  onPause,
+  onResume,
+  onReveal,
+  onSold,
+  onUnsold,
+}: ConsoleLotCardProps) {
+  if (!state?.current_player_id) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <Gavel className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+          <p className="font-medium">No player under the hammer</p>
+          <p className="text-sm text-muted-foreground">
+            Nominate the next player from the list below.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const name = player?.full_name || "Player";
+  const rtmPending = !!state.rtm_team_id;
+  const sealedBidsHidden = sealed && !state.sealed_revealed_at;
+
+  return (
+    <Card className="border-2 border-live overflow-hidden">
+      <div className="bg-live text-live-foreground px-4 py-2 flex items-center justify-between">
+        <span className="font-semibold flex items-center gap-2">
+          <Gavel className="h-4 w-4" />
+          {rtmPending
+            ? "Right to Match"
+            : !state.is_bidding_open
+              ? "Bidding Closed"
+              : state.is_paused
+                ? "Bidding Paused"
+                : "Bidding Open"}
+        </span>
+        {(rtmPending ? rtmTimeLeft : timeLeft) !== null && (
+          <div className="flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            <span className="font-mono text-xl font-bold">
+              {rtmPending ? rtmTimeLeft : timeLeft}s
+            </span>
+          </div>
+        )}
+      </div>
+      <CardContent className="p-6 space-y-6">
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="flex items-center gap-4 flex-1">
+            <Avatar className="h-20 w-20 border-4 border-primary">
+              <AvatarImage src={player?.avatar_url || undefined} />
+              <AvatarFallback className="text-xl bg-primary text-primary-foreground">
+                {getInitials(name)}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h2 className="text-2xl font-display font-bold">{name}</h2>
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Badge variant="outline">{getPlayerTypeLabel(player?.player_type ?? null)}</Badge>
+                {player?.player_category && (
+                  <Badge className={getCategoryBadgeColor(player.player_category)}>
+                    {getPlayerCategoryLabel(player.player_category)}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mt-2">
+                Base Price: {formatCurrency(state.lot_base_price)}
+              </p>
+            </div>
+          </div>
+
+          {sealedBidsHidden ? (
+            <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
+              <p className="text-sm text-muted-foreground mb-1">Sealed Bids</p>
+              <p className="text-3xl font-display font-bold text-primary flex items-center justify-center gap-2">
+                <Lock className="h-6 w-6" />
+                {state.sealed_bid_count}
+              </p>
+              <p className="text-sm font-medium mt-2">Hidden until you reveal</p>
+            </div>
+          ) : (
+            <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
+              <p className="text-sm text-muted-foreground mb-1">
+                {sealed ? "Winning Bid" : "Highest Bid"}
+              </p>
+              <p className="text-3xl font-display font-bold text-primary">
+                {highestBid ? formatCurrency(highestBid.bid_amount) : "—"}
+              </p>
+              <p className="text-sm font-medium mt-2">
+                {leadingTeamName || "No bids yet"}
+              </p>
+              {!sealed && <p className="text-xs text-muted-foreground">{bidCount} bids</p>}
+            </div>
+          )}
+        </div>
+
+        {rtmPending && (
+          <div className="flex items-center gap-3 rounded-lg border border-accent bg-accent/10 p-3 text-sm">
+            <RefreshCcw className="h-4 w-4 text-accent shrink-0" />
+            <span>
+              {rtmTimeLeft
+                ? `Waiting for ${rtmTeamName || "the previous team"} to match ${highestBid ? formatCurrency(highestBid.bid_amount) : "the winning bid"}.`
+                : `${rtmTeamName || "The previous team"} didn't match. Complete the sale to ${leadingTeamName || "the winning bidder"}.`}
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {sealedBidsHidden && state.lot_opened_at ? (
+            <Button variant="outline" onClick={onReveal} disabled={busy}>
+              <Eye className="h-4 w-4 mr-2" />
+              Reveal Bids
+            </Button>
+          ) : state.is_bidding_open ? (
+            <Button variant="outline" onClick={onCloseBidding} disabled={busy}>
+              <Square className="h-4 w-4 mr-2" />
+              Close Bidding
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={onOpenBidding}
+              disabled={busy || rtmPending || (sealed && !sealedBidsHidden)}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Open Bidding
+            </Button>
+          )}
+          {state.is_bidding_open && (
+            state.is_paused ? (
+              <Button variant="outline" onClick={onResume} disabled={busy}>
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={onPause} disabled={busy}>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </Button>
+            )
+          )}
+          <Button
+            className="bg-success text-success-foreground hover:bg-success/90"
+            onClick={onSold}
+            disabled={busy || !highestBid || (rtmPending && !!rtmTimeLeft)}
+          >
+            {busy ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+            )}
+            {rtmPending ? "Complete Sale" : "Sold"}
+          </Button>
+          <Button variant="destructive" onClick={onUnsold} disabled={busy || rtmPending}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Unsold
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
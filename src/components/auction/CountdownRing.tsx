@@ -0,0 +1,53 @@
+interface CountdownRingProps {
+  timeLeft: number | null;
+  total: number;
+  paused?: boolean;
+  size?: number;
+}
+
+// Circular bid clock for the projector screen; drains as the lot runs down
+export function CountdownRing({ timeLeft, total, paused = false, size = 240 }: CountdownRingProps) {
+  const stroke = size / 12;
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = timeLeft !== null && total > 0 ? Math.min(timeLeft / total, 1) : 0;
+  const urgent = timeLeft !== null && timeLeft <= 3 && !paused;
+
+  return (
+    <div className="relative" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={stroke}
+          className="stroke-white/10"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          className={`transition-[stroke-dashoffset] duration-1000 ease-linear ${urgent ? "stroke-live" : "stroke-primary"}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
+        {paused ? (
+          <span className="text-3xl font-display font-bold uppercase tracking-widest">Paused</span>
+        ) : (
+          <span
+            className={`font-mono font-bold ${urgent ? "text-live animate-pulse" : ""}`}
+            style={{ fontSize: size / 3 }}
+          >
+            {timeLeft ?? "–"}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Gavel, Loader2, Shield, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { Tables } from "@/integrations/supabase/types";
+import type {
+  AuctionPlayerProfile,
+  AuctionPoolEntry,
+  AuctionTeam,
+  AuctionTeamPlayer,
+} from "@/hooks/use-auction-room";
+import {
+  formatCurrency,
+  getBidIncrement,
+  getLotStatusBadgeColor,
+  getLotStatusLabel,
+  getPlayerTypeLabel,
+  getSquadRuleTargetLabel,
+  type BidIncrementSlab,
+} from "@/lib/auction";
+
+// How many one-tap bid buttons to offer: the next bid plus jump bids
+const QUICK_BID_STEPS = 3;
+
+interface OwnerWarRoomProps {
+  tournamentId: string;
+  team: AuctionTeam;
+  squad: AuctionTeamPlayer[];
+  pool: AuctionPoolEntry[];
+  profiles: Record<string, AuctionPlayerProfile>;
+  playersPerTeam: number;
+  maxBid: number;
+  currentPlayerId: string | null | undefined;
+  nextBid: number;
+  incrementSlabs: BidIncrementSlab[];
+  canBid: boolean;
+  placingBid: boolean;
+  sealed: boolean;
+  onBid: (amount: number) => void;
+}
+
+/**
+ * Private dashboard for the owner of the bidding team: their squad, purse,
+ * the slots still to fill under the squad rules and category caps, a starred
+ * shortlist and one-tap bid buttons.
+ */
+export function OwnerWarRoom({
+  tournamentId,
+  team,
+  squad,
+  pool,
+  profiles,
+  playersPerTeam,
+  maxBid,
+  currentPlayerId,
+  nextBid,
+  incrementSlabs,
+  canBid,
+  placingBid,
+  sealed,
+  onBid,
+}: OwnerWarRoomProps) {
+  const [rules, setRules] = useState<Tables<"squad_rules">[]>([]);
+  const [categories, setCategories] = useState<Tables<"auction_config">[]>([]);
+  const [shortlist, setShortlist] = useState<string[]>([]);
+  const [showPool, setShowPool] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      supabase.from("squad_rules").select("*").eq("tournament_id", tournamentId),
+      supabase
+        .from("auction_config")
+        .select("*")
+        .eq("tournament_id", tournamentId)
+        .eq("is_active", true),
+    ]).then(([rulesRes, configRes]) => {
+      if (cancelled) return;
+      setRules(rulesRes.data || []);
+      setCategories(configRes.data || []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId]);
+
+  const fetchShortlist = useCallback(async () => {
+    const { data } = await supabase
+      .from("shortlists")
+      .select("player_id")
+      .eq("team_id", team.id)
+      .order("created_at", { ascending: true });
+
+    setShortlist((data || []).map((s) => s.player_id));
+  }, [team.id]);
+
+  useEffect(() => {
+    fetchShortlist();
+  }, [fetchShortlist]);
+
+  const toggleShortlist = async (playerId: string) => {
+    const starred = shortlist.includes(playerId);
+    const { error } = starred
+      ? await supabase.from("shortlists").delete().eq("team_id", team.id).eq("player_id", playerId)
+      : await supabase
+          .from("shortlists")
+          .insert({ tournament_id: tournamentId, team_id: team.id, player_id: playerId });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update your shortlist.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setShortlist((prev) =>
+      starred ? prev.filter((id) => id !== playerId) : [...prev, playerId]
+    );
+  };
+
+  const poolByPlayer = useMemo(
+    () => Object.fromEntries(pool.map((entry) => [entry.player_id, entry])),
+    [pool]
+  );
+
+  // The squad as the server's get_team_squad sees it
+  const squadDetails = squad.map((tp) => {
+    const entry = poolByPlayer[tp.player_id];
+    const profile = profiles[tp.player_id];
+    return {
+      ...tp,
+      player_type: entry?.player_type ?? profile?.player_type ?? null,
+      player_category: entry?.player_category ?? profile?.player_category ?? null,
+      auction_category: entry?.auction_category ?? null,
+    };
+  });
+
+  const ruleProgress = rules.map((rule) => {
+    const count = squadDetails.filter((p) =>
+      rule.rule_type === "player_type"
+        ? p.player_type === rule.target
+        : p.player_category === rule.target
+    ).length;
+    return { rule, count, needed: Math.max((rule.min_count ?? 0) - count, 0) };
+  });
+
+  const categoryProgress = categories.map((config) => ({
+    config,
+    count: squadDetails.filter((p) => p.auction_category === config.category).length,
+  }));
+
+  const quickBids: number[] = [];
+  for (let amount = nextBid; quickBids.length < QUICK_BID_STEPS && amount <= maxBid; ) {
+    quickBids.push(amount);
+    amount += getBidIncrement(amount, incrementSlabs);
+  }
+
+  const openSlots = Math.max(playersPerTeam - squad.length, 0);
+  const upcoming = pool.filter((entry) => entry.is_included && entry.status === "upcoming");
+
+  const renderPlayerRow = (entry: AuctionPoolEntry) => {
+    const starred = shortlist.includes(entry.player_id);
+    const onBlock = entry.player_id === currentPlayerId;
+    return (
+      <div
+        key={entry.id}
+        className={`flex items-center gap-2 p-2 rounded-lg text-sm ${onBlock ? "bg-live/10 border border-live" : "bg-muted/50"}`}
+      >
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          onClick={() => toggleShortlist(entry.player_id)}
+          aria-label={starred ? "Remove from shortlist" : "Add to shortlist"}
+        >
+          <Star className={`h-4 w-4 ${starred ? "fill-accent text-accent" : "text-muted-foreground"}`} />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{profiles[entry.player_id]?.full_name || "Player"}</p>
+          <p className="text-xs text-muted-foreground">
+            {getPlayerTypeLabel(entry.player_type)} · {formatCurrency(entry.base_price)}
+          </p>
+        </div>
+        {onBlock ? (
+          <Badge className="bg-live text-live-foreground">On the block</Badge>
+        ) : (
+          <Badge className={getLotStatusBadgeColor(entry.status)}>
+            {getLotStatusLabel(entry.status)}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const shortlisted = shortlist
+    .map((playerId) => poolByPlayer[playerId])
+    .filter((entry): entry is AuctionPoolEntry => !!entry);
+
+  return (
+    <Card className="border-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5 text-primary" />
+          War Room · {team.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Purse */}
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-lg font-bold">{formatCurrency(team.budget_remaining)}</p>
+            <p className="text-xs text-muted-foreground">Purse Left</p>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-lg font-bold text-primary">{formatCurrency(maxBid)}</p>
+            <p className="text-xs text-muted-foreground">Max Bid</p>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-lg font-bold">{openSlots}</p>
+            <p className="text-xs text-muted-foreground">Open Slots</p>
+          </div>
+        </div>
+
+        {/* One-tap Bids */}
+        {currentPlayerId && !sealed && (
+          <div className="grid grid-cols-3 gap-2">
+            {quickBids.length === 0 ? (
+              <p className="col-span-3 text-xs text-muted-foreground text-center">
+                This lot is beyond your max bid.
+              </p>
+            ) : (
+              quickBids.map((amount) => (
+                <Button
+                  key={amount}
+                  className="bg-live text-live-foreground hover:bg-live/90"
+                  disabled={!canBid || placingBid}
+                  onClick={() => onBid(amount)}
+                >
+                  {placingBid ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Gavel className="h-4 w-4 mr-1" />
+                  )}
+                  {formatCurrency(amount)}
+                </Button>
+              ))
+            )}
+          </div>
+        )}
+
+        {/* Slots To Fill */}
+        {(ruleProgress.length > 0 || categoryProgress.length > 0) && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Slots To Fill</p>
+            {ruleProgress.map(({ rule, count, needed }) => (
+              <div key={rule.id} className="flex justify-between text-sm">
+                <span>{getSquadRuleTargetLabel(rule.rule_type, rule.target)}</span>
+                <span className={needed > 0 ? "text-destructive font-medium" : "text-muted-foreground"}>
+                  {count}
+                  {rule.min_count !== null && ` / min ${rule.min_count}`}
+                  {rule.max_count !== null && ` · max ${rule.max_count}`}
+                </span>
+              </div>
+            ))}
+            {categoryProgress.map(({ config, count }) => (
+              <div key={config.id} className="flex justify-between text-sm">
+                <span>{config.category}</span>
+                <span className="text-muted-foreground">
+                  {count} of {config.max_players}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Squad */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Squad ({squad.length}/{playersPerTeam})
+          </p>
+          {squadDetails.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No players yet.</p>
+          ) : (
+            squadDetails.map((p) => (
+              <div key={p.id} className="flex justify-between text-sm">
+                <span className="truncate">
+                  {profiles[p.player_id]?.full_name || "Player"}
+                  <span className="text-muted-foreground"> · {getPlayerTypeLabel(p.player_type)}</span>
+                </span>
+                <span className="font-medium">{formatCurrency(p.sold_price)}</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Shortlist */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium flex items-center gap-1">
+              <Star className="h-4 w-4 fill-accent text-accent" />
+              Shortlist ({shortlisted.length})
+            </p>
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowPool(!showPool)}>
+              {showPool ? "Hide pool" : "Star players"}
+            </Button>
+          </div>
+          {shortlisted.length === 0 && !showPool ? (
+            <p className="text-sm text-muted-foreground">
+              Star players from the pool to track them here.
+            </p>
+          ) : (
+            shortlisted.map(renderPlayerRow)
+          )}
+          {showPool && (
+            <div className="space-y-2 max-h-72 overflow-y-auto pt-2 border-t">
+              {upcoming
+                .filter((entry) => !shortlist.includes(entry.player_id))
+                .map(renderPlayerRow)}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getBidErrorToast } from "@/lib/auction";
+
+interface SealedBidFormProps {
+  tournamentId: string;
+  playerId: string;
+  lotOpenedAt: string | null;
+  teamId: string;
+  teamName?: string;
+  basePrice: number;
+  maxBid: number;
+  disabled: boolean;
+}
+
+export function SealedBidForm({
+  tournamentId,
+  playerId,
+  lotOpenedAt,
+  teamId,
+  teamName,
+  basePrice,
+  maxBid,
+  disabled,
+}: SealedBidFormProps) {
+  const [amount, setAmount] = useState("");
+  const [submittedAmount, setSubmittedAmount] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Only the team's own bid is readable until the reveal
+  useEffect(() => {
+    setAmount("");
+    setSubmittedAmount(null);
+    if (!lotOpenedAt) return;
+
+    let cancelled = false;
+    supabase
+      .from("sealed_bids")
+      .select("bid_amount")
+      .eq("team_id", teamId)
+      .eq("player_id", playerId)
+      .eq("lot_opened_at", lotOpenedAt)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!cancelled) setSubmittedAmount(data?.bid_amount ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId, playerId, lotOpenedAt]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum < basePrice || amountNum > maxBid) {
+      toast({
+        title: "Validation Error",
+        description: `Your sealed bid must be between ${formatCurrency(basePrice)} and ${formatCurrency(maxBid)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    const { data, error } = await supabase.rpc("submit_sealed_bid", {
+      _tournament_id: tournamentId,
+      _player_id: playerId,
+      _team_id: teamId,
+      _amount: amountNum,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({ ...getBidErrorToast(error), variant: "destructive" });
+      return;
+    }
+    setSubmittedAmount(data.bid_amount);
+    toast({
+      title: "Bid Sealed",
+      description: `${teamName || "Your team"} bid ${formatCurrency(data.bid_amount)}. It stays hidden until the reveal.`,
+    });
+  };
+
+  if (submittedAmount !== null) {
+    return (
+      <div className="flex-1 flex items-center gap-2 rounded-lg border bg-muted/50 px-4 py-3 text-sm">
+        <Lock className="h-4 w-4 text-primary" />
+        <span>
+          Your sealed bid: <span className="font-semibold">{formatCurrency(submittedAmount)}</span>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 flex gap-3">
+      <Input
+        type="number"
+        min={basePrice}
+        max={maxBid}
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder={`${basePrice} - ${maxBid}`}
+        className="h-11"
+        disabled={disabled}
+      />
+      <Button
+        type="submit"
+        size="lg"
+        className="bg-live text-live-foreground hover:bg-live/90"
+        disabled={disabled || submitting || !amount}
+      >
+        {submitting ? (
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        ) : (
+          <Lock className="h-5 w-5 mr-2" />
+        )}
+        Seal Bid
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Lock, Trophy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/auction";
+
+type SealedBid = Tables<"sealed_bids">;
+
+// Delay between revealing one sealed bid and the next
+const REVEAL_STEP_MS = 800;
+
+interface SealedBidRevealProps {
+  tournamentId: string;
+  playerId: string;
+  lotOpenedAt: string;
+  teamNames: Record<string, string>;
+  winnerTeamId?: string;
+}
+
+export function SealedBidReveal({
+  tournamentId,
+  playerId,
+  lotOpenedAt,
+  teamNames,
+  winnerTeamId,
+}: SealedBidRevealProps) {
+  const [bids, setBids] = useState<SealedBid[]>([]);
+  const [shownCount, setShownCount] = useState(0);
+
+  // Lowest bid first, so the winner is the last to turn over
+  useEffect(() => {
+    let cancelled = false;
+    supabase
+      .from("sealed_bids")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .eq("player_id", playerId)
+      .eq("lot_opened_at", lotOpenedAt)
+      .not("revealed_at", "is", null)
+      .order("bid_amount", { ascending: true })
+      .then(({ data }) => {
+        if (!cancelled) setBids(data || []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId, playerId, lotOpenedAt]);
+
+  useEffect(() => {
+    if (shownCount >= bids.length) return;
+    const timeout = setTimeout(() => setShownCount((count) => count + 1), REVEAL_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [shownCount, bids.length]);
+
+  const allShown = bids.length > 0 && shownCount >= bids.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-primary" />
+          Sealed Bids
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {bids.slice(0, shownCount).map((bid) => {
+            const isWinner = allShown && bid.team_id === winnerTeamId;
+            return (
+              <div
+                key={bid.id}
+                className={`flex items-center justify-between p-3 rounded-lg animate-in fade-in slide-in-from-bottom-4 duration-500 ${isWinner ? "bg-success/10 border border-success" : "bg-muted/50"}`}
+              >
+                <span className="font-medium flex items-center gap-2">
+                  {isWinner && <Trophy className="h-4 w-4 text-success" />}
+                  {teamNames[bid.team_id] || "Team"}
+                </span>
+                <span className="font-semibold">{formatCurrency(bid.bid_amount)}</span>
+              </div>
+            );
+          })}
+          {!allShown && (
+            <p className="text-sm text-muted-foreground text-center py-2 animate-pulse">
+              Opening sealed bids...
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
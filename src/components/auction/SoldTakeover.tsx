@@ -0,0 +1,28 @@
+import { Gavel } from "lucide-react";
+import { formatCurrency } from "@/lib/auction";
+
+interface SoldTakeoverProps {
+  playerName: string;
+  teamName: string;
+  price: number;
+}
+
+// Full-screen "SOLD" banner shown on the projector after the hammer falls
+export function SoldTakeover({ playerName, teamName, price }: SoldTakeoverProps) {
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-gradient-to-br from-live via-primary to-accent text-primary-foreground animate-in fade-in zoom-in-90 duration-500">
+      <div className="absolute inset-0 cricket-pattern opacity-10" />
+      <Gavel className="h-32 w-32 mb-8 animate-in spin-in-12 duration-700" />
+      <p className="text-[12rem] leading-none font-display font-black tracking-tight animate-in zoom-in-150 duration-700">
+        SOLD!
+      </p>
+      <p className="mt-10 text-6xl font-display font-bold animate-in slide-in-from-bottom-8 duration-700">
+        {playerName}
+      </p>
+      <p className="mt-6 text-5xl animate-in slide-in-from-bottom-8 duration-1000">
+        to <span className="font-bold">{teamName}</span> for{" "}
+        <span className="font-bold">{formatCurrency(price)}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, ClipboardCheck, CheckCircle2, XCircle, AlertTriangle, Play } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import type { Database } from "@/integrations/supabase/types";
+
+type ReadinessCheck = Database["public"]["Functions"]["get_auction_readiness"]["Returns"][number];
+
+const checkTitles: Record<string, string> = {
+  teams: "Teams",
+  owners: "Team Owners",
+  pool: "Auction Pool",
+  purses: "Purses",
+  timer: "Bid Timer",
+};
+
+interface AuctionReadinessModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+  onGoLive: () => void;
+  goingLive?: boolean;
+}
+
+export function AuctionReadinessModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+  onGoLive,
+  goingLive = false,
+}: AuctionReadinessModalProps) {
+  const [checks, setChecks] = useState<ReadinessCheck[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchChecks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("get_auction_readiness", {
+        _tournament_id: tournamentId,
+      });
+
+      if (error) throw error;
+      setChecks(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to run the readiness check.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchChecks();
+    }
+  }, [open, fetchChecks]);
+
+  const blockers = checks.filter((c) => c.blocking && !c.passed).length;
+  const warnings = checks.filter((c) => !c.blocking && !c.passed).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Ready to go live?
+          </DialogTitle>
+          <DialogDescription>
+            {tournamentName} can go live once every blocking check passes. Warnings won't stop
+            the auction but may leave teams short of players.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {checks.map((check) => {
+              const title = check.check_key.startsWith("category:")
+                ? "Category Pool"
+                : checkTitles[check.check_key] ?? check.check_key;
+              return (
+                <div key={check.check_key} className="flex items-start gap-3 p-3 rounded-lg border">
+                  {check.passed ? (
+                    <CheckCircle2 className="h-5 w-5 text-success shrink-0" />
+                  ) : check.blocking ? (
+                    <XCircle className="h-5 w-5 text-destructive shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-accent shrink-0" />
+                  )}
+                  <div>
+                    <p className="font-medium text-sm">{title}</p>
+                    <p className="text-sm text-muted-foreground">{check.message}</p>
+                  </div>
+                </div>
+              );
+            })}
+            {checks.length > 0 && (
+              <p className="text-sm pt-2">
+                {blockers > 0
+                  ? `${blockers} blocking issue(s) to fix before going live.`
+                  : warnings > 0
+                    ? `Ready, with ${warnings} warning(s).`
+                    : "All checks passed."}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={fetchChecks} disabled={loading}>
+            Re-check
+          </Button>
+          <Button
+            onClick={onGoLive}
+            disabled={loading || goingLive || checks.length === 0 || blockers > 0}
+          >
+            {goingLive ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Start Auction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Plus, Trash2, TrendingUp } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { DEFAULT_BID_INCREMENT, formatCurrency } from "@/lib/auction";
+
+// Select value for the tournament-wide ladder
+const ALL_CATEGORIES = "all";
+
+interface AuctionConfig {
+  id: string;
+  category: string;
+}
+
+interface IncrementSlab {
+  id: string;
+  up_to: number | null;
+  increment: number;
+}
+
+interface BidIncrementConfigModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+}
+
+export function BidIncrementConfigModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+}: BidIncrementConfigModalProps) {
+  const [configs, setConfigs] = useState<AuctionConfig[]>([]);
+  const [scope, setScope] = useState(ALL_CATEGORIES);
+  const [slabs, setSlabs] = useState<IncrementSlab[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [upTo, setUpTo] = useState("");
+  const [increment, setIncrement] = useState("");
+
+  const fetchSlabs = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("bid_increments")
+        .select("id, up_to, increment")
+        .eq("tournament_id", tournamentId)
+        .order("up_to", { ascending: true, nullsFirst: false });
+
+      query =
+        scope === ALL_CATEGORIES
+          ? query.is("auction_config_id", null)
+          : query.eq("auction_config_id", scope);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setSlabs(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load bid increments.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId, scope]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchConfigs = async () => {
+      const { data } = await supabase
+        .from("auction_config")
+        .select("id, category")
+        .eq("tournament_id", tournamentId)
+        .eq("is_active", true)
+        .order("created_at", { ascending: true });
+
+      setConfigs(data || []);
+    };
+
+    fetchConfigs();
+  }, [open, tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchSlabs();
+    }
+  }, [open, fetchSlabs]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const upToNum = upTo ? parseFloat(upTo) : null;
+    const incrementNum = parseFloat(increment);
+    if (isNaN(incrementNum) || incrementNum <= 0 || (upToNum !== null && upToNum <= 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Increment must be greater than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (slabs.some((s) => s.up_to === upToNum)) {
+      toast({
+        title: "Validation Error",
+        description: upToNum === null
+          ? "The ladder already has a slab with no upper limit."
+          : `The ladder already has a slab for bids below ${formatCurrency(upToNum)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("bid_increments").insert({
+        tournament_id: tournamentId,
+        auction_config_id: scope === ALL_CATEGORIES ? null : scope,
+        up_to: upToNum,
+        increment: incrementNum,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Increment slab added." });
+      setUpTo("");
+      setIncrement("");
+      fetchSlabs();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save bid increment.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("bid_increments").delete().eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Increment slab deleted." });
+      fetchSlabs();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete bid increment.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Bid Increment Configuration
+          </DialogTitle>
+          <DialogDescription>
+            Set how much each raise must add for {tournamentName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Applies To</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {configs.map((config) => (
+                <SelectItem key={config.id} value={config.id}>
+                  {config.category}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            A category's own ladder overrides the tournament-wide one. Without any
+            ladder, bids go up by {formatCurrency(DEFAULT_BID_INCREMENT)}.
+          </p>
+        </div>
+
+        {/* Add Form */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>While Bid Is Below (₹)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={upTo}
+                onChange={(e) => setUpTo(e.target.value)}
+                placeholder="Leave blank for no limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Increment (₹)</Label>
+              <Input
+                type="number"
+                min="1"
+                value={increment}
+                onChange={(e) => setIncrement(e.target.value)}
+                placeholder="e.g., 1000"
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Slab
+          </Button>
+        </form>
+
+        {/* Ladder Table */}
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bid Range</TableHead>
+                <TableHead>Increment</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : slabs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    No increment slabs configured yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                slabs.map((slab, index) => {
+                  const from = index === 0 ? null : slabs[index - 1].up_to;
+                  return (
+                    <TableRow key={slab.id}>
+                      <TableCell className="font-medium">
+                        {slab.up_to === null
+                          ? from === null
+                            ? "Any bid"
+                            : `${formatCurrency(from)} and above`
+                          : `Below ${formatCurrency(slab.up_to)}`}
+                      </TableCell>
+                      <TableCell>+{formatCurrency(slab.increment)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(slab.id)}
+                          className="text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,6 +27,8 @@ export function BidTimerConfigModal({
   tournamentName,
 }: BidTimerConfigModalProps) {
   const [bidTime, setBidTime] = useState("10");
+  const [extensionSeconds, setExtensionSeconds] = useState("0");
+  const [extensionThreshold, setExtensionThreshold] = useState("0");
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [existingId, setExistingId] = useState<string | null>(null);
@@ -50,9 +52,13 @@ export function BidTimerConfigModal({
       
       if (data) {
         setBidTime(data.bid_time.toString());
+        setExtensionSeconds(data.extension_seconds.toString());
+        setExtensionThreshold(data.extension_threshold.toString());
         setExistingId(data.id);
       } else {
         setBidTime("10");
+        setExtensionSeconds("0");
+        setExtensionThreshold("0");
         setExistingId(null);
       }
     } catch (error: any) {
@@ -79,13 +85,33 @@ export function BidTimerConfigModal({
       return;
     }
 
+    const extensionSecondsNum = parseInt(extensionSeconds) || 0;
+    const extensionThresholdNum = parseInt(extensionThreshold) || 0;
+    if (
+      extensionSecondsNum < 0 ||
+      extensionSecondsNum > 60 ||
+      extensionThresholdNum < 0 ||
+      extensionThresholdNum > bidTimeNum
+    ) {
+      toast({
+        title: "Validation Error",
+        description: "Extension must be 0-60 seconds and the window can't exceed the bid time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       if (existingId) {
         // Update existing
         const { error } = await supabase
           .from("auction_timer")
-          .update({ bid_time: bidTimeNum })
+          .update({
+            bid_time: bidTimeNum,
+            extension_seconds: extensionSecondsNum,
+            extension_threshold: extensionThresholdNum,
+          })
           .eq("id", existingId);
 
         if (error) throw error;
@@ -94,6 +120,8 @@ export function BidTimerConfigModal({
         const { error } = await supabase.from("auction_timer").insert({
           tournament_id: tournamentId,
           bid_time: bidTimeNum,
+          extension_seconds: extensionSecondsNum,
+          extension_threshold: extensionThresholdNum,
         });
 
         if (error) throw error;
@@ -150,6 +178,36 @@ export function BidTimerConfigModal({
               </p>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="extensionThreshold">Last-Second Window</Label>
+                <Input
+                  id="extensionThreshold"
+                  type="number"
+                  min="0"
+                  value={extensionThreshold}
+                  onChange={(e) => setExtensionThreshold(e.target.value)}
+                  placeholder="e.g., 3"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="extensionSeconds">Extra Seconds</Label>
+                <Input
+                  id="extensionSeconds"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={extensionSeconds}
+                  onChange={(e) => setExtensionSeconds(e.target.value)}
+                  placeholder="e.g., 5"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                Bids landing in the last few seconds add extra time on top of the
+                reset. Set either to 0 to turn this off.
+              </p>
+            </div>
+
             <div className="flex gap-2">
               <Button type="submit" className="flex-1" disabled={saving}>
                 {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { ArrowLeftRight, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+import { getTradeCashPayerId, type TradeSquadPlayer, type TradeTeam } from "@/lib/trades";
+
+// Select items can't have an empty value
+const NO_PLAYER = "none";
+
+interface ProposeTradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  myTeams: TradeTeam[];
+  teams: TradeTeam[];
+  squads: TradeSquadPlayer[];
+  names: Record<string, string>;
+  onProposed: () => void;
+}
+
+export function ProposeTradeDialog({
+  open,
+  onOpenChange,
+  myTeams,
+  teams,
+  squads,
+  names,
+  onProposed,
+}: ProposeTradeDialogProps) {
+  // Mounted per use, so the form always starts empty
+  const [teamId, setTeamId] = useState(myTeams[0]?.id ?? "");
+  const [otherTeamId, setOtherTeamId] = useState("");
+  const [offeredId, setOfferedId] = useState(NO_PLAYER);
+  const [requestedId, setRequestedId] = useState(NO_PLAYER);
+  const [cash, setCash] = useState("");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const teamById = Object.fromEntries(teams.map((t) => [t.id, t]));
+  const offered = offeredId === NO_PLAYER ? null : offeredId;
+  const requested = requestedId === NO_PLAYER ? null : requestedId;
+  const cashNum = parseFloat(cash) || 0;
+  const payerId = getTradeCashPayerId({
+    requested_player_id: requested,
+    proposing_team_id: teamId,
+    receiving_team_id: otherTeamId,
+  });
+
+  const renderPlayerOptions = (squadTeamId: string) =>
+    squads
+      .filter((s) => s.team_id === squadTeamId)
+      .map((s) => (
+        <SelectItem key={s.player_id} value={s.player_id}>
+          {names[s.player_id] || "Player"} · {formatCurrency(s.sold_price)}
+        </SelectItem>
+      ));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!teamId || !otherTeamId || (!offered && !requested)) {
+      toast({
+        title: "Validation Error",
+        description: "Pick a team to trade with and at least one player.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (cashNum < 0 || ((!offered || !requested) && cashNum <= 0)) {
+      toast({
+        title: "Validation Error",
+        description: "A one-player trade needs a cash amount in return.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("propose_trade", {
+      _proposing_team_id: teamId,
+      _receiving_team_id: otherTeamId,
+      _offered_player_id: offered ?? undefined,
+      _requested_player_id: requested ?? undefined,
+      _cash_amount: cashNum,
+      _message: message,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error, "Failed to propose trade."), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Trade Proposed",
+      description: `${teamById[otherTeamId]?.name} has been sent your offer.`,
+    });
+    onProposed();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Propose Trade
+          </DialogTitle>
+          <DialogDescription>
+            Swap players, or trade a player for cash. The other owner accepts, then the
+            organizer approves.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Your Team</Label>
+              <Select
+                value={teamId}
+                onValueChange={(value) => {
+                  setTeamId(value);
+                  setOfferedId(NO_PLAYER);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Your team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {myTeams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Trade With</Label>
+              <Select
+                value={otherTeamId}
+                onValueChange={(value) => {
+                  setOtherTeamId(value);
+                  setRequestedId(NO_PLAYER);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pick a team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams
+                    .filter((team) => team.id !== teamId)
+                    .map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>You Give</Label>
+              <Select value={offeredId} onValueChange={setOfferedId} disabled={!teamId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PLAYER}>No player</SelectItem>
+                  {renderPlayerOptions(teamId)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>You Get</Label>
+              <Select value={requestedId} onValueChange={setRequestedId} disabled={!otherTeamId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PLAYER}>No player</SelectItem>
+                  {renderPlayerOptions(otherTeamId)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tradeCash">Cash (₹)</Label>
+            <Input
+              id="tradeCash"
+              type="number"
+              min="0"
+              value={cash}
+              onChange={(e) => setCash(e.target.value)}
+              placeholder="0"
+            />
+            {cashNum > 0 && otherTeamId && (offered || requested) && (
+              <p className="text-xs text-muted-foreground">
+                {teamById[payerId]?.name} pays {formatCurrency(cashNum)} from their purse.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tradeMessage">Message</Label>
+            <Textarea
+              id="tradeMessage"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Optional note for the other owner"
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Offer
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
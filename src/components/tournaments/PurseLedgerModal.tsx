@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Minus, Plus, Wallet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+import { getPurseKindLabel, isLedgerReconciled } from "@/lib/purse-ledger";
+
+type PurseLedgerEntry = Tables<"purse_ledger">;
+
+interface PurseLedgerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  teamName: string;
+  budgetRemaining: number;
+  canAdjust: boolean;
+  onChanged?: () => void;
+}
+
+export function PurseLedgerModal({
+  open,
+  onOpenChange,
+  teamId,
+  teamName,
+  budgetRemaining,
+  canAdjust,
+  onChanged,
+}: PurseLedgerModalProps) {
+  const [entries, setEntries] = useState<PurseLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fetchLedger = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("purse_ledger")
+        .select("*")
+        .eq("team_id", teamId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load the purse ledger.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchLedger();
+    }
+  }, [open, fetchLedger]);
+
+  const handleAdjust = async (sign: 1 | -1) => {
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0 || !reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter an amount and a reason for the adjustment.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("adjust_team_purse", {
+      _team_id: teamId,
+      _amount: sign * amountNum,
+      _reason: reason,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error, "Failed to adjust the purse."), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: sign > 0 ? "Purse Topped Up" : "Penalty Applied",
+      description: `${formatCurrency(amountNum)} ${sign > 0 ? "added to" : "taken from"} ${teamName}'s purse.`,
+    });
+    setAmount("");
+    setReason("");
+    fetchLedger();
+    onChanged?.();
+  };
+
+  const reconciled = isLedgerReconciled(entries, budgetRemaining);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Purse Ledger · {teamName}
+          </DialogTitle>
+          <DialogDescription>
+            Every credit and debit to this team's purse, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border rounded-md max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Entry</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    No purse movements yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                [...entries].reverse().map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{getPurseKindLabel(entry.kind)}</p>
+                      {entry.reason && (
+                        <p className="text-xs text-muted-foreground">{entry.reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${entry.amount < 0 ? "text-destructive" : "text-success"}`}
+                    >
+                      {entry.amount < 0 ? "-" : "+"}
+                      {formatCurrency(Math.abs(entry.amount))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.balance_after)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {!loading && entries.length > 0 && (
+          <p className={`text-xs ${reconciled ? "text-muted-foreground" : "text-destructive"}`}>
+            {reconciled
+              ? `The entries add up to the current purse of ${formatCurrency(budgetRemaining)}.`
+              : `The entries don't add up to the current purse of ${formatCurrency(budgetRemaining)}.`}
+          </p>
+        )}
+
+        {/* Organizer Adjustment */}
+        {canAdjust && (
+          <div className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="purseAmount">Amount (₹)</Label>
+                <Input
+                  id="purseAmount"
+                  type="number"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="e.g., 10000"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="purseReason">Reason</Label>
+                <Input
+                  id="purseReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g., Late to the auction"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" disabled={saving} onClick={() => handleAdjust(-1)}>
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Minus className="h-4 w-4 mr-2" />
+                )}
+                Apply Penalty
+              </Button>
+              <Button disabled={saving} onClick={() => handleAdjust(1)}>
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Top Up
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
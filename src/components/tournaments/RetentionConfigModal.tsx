@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Plus, Trash2, UserCheck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/auction";
+
+interface RetentionSlot {
+  id: string;
+  slot_number: number;
+  price: number;
+}
+
+interface RetentionConfigModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+}
+
+export function RetentionConfigModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+}: RetentionConfigModalProps) {
+  const [slots, setSlots] = useState<RetentionSlot[]>([]);
+  const [retainedCount, setRetainedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [price, setPrice] = useState("");
+  const [rtmAllowance, setRtmAllowance] = useState("0");
+  const [rtmSeconds, setRtmSeconds] = useState("15");
+  const [savingRtm, setSavingRtm] = useState(false);
+
+  const fetchSlots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [slotsRes, retentionsRes, tournamentRes] = await Promise.all([
+        supabase
+          .from("retention_slots")
+          .select("id, slot_number, price")
+          .eq("tournament_id", tournamentId)
+          .order("slot_number", { ascending: true }),
+        supabase
+          .from("retentions")
+          .select("id", { count: "exact", head: true })
+          .eq("tournament_id", tournamentId),
+        supabase
+          .from("tournaments")
+          .select("rtm_allowance, rtm_seconds")
+          .eq("id", tournamentId)
+          .single(),
+      ]);
+
+      if (slotsRes.error) throw slotsRes.error;
+      if (tournamentRes.error) throw tournamentRes.error;
+      setSlots(slotsRes.data || []);
+      setRetainedCount(retentionsRes.count || 0);
+      setRtmAllowance(tournamentRes.data.rtm_allowance.toString());
+      setRtmSeconds(tournamentRes.data.rtm_seconds.toString());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load retention slots.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchSlots();
+    }
+  }, [open, fetchSlots]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const priceNum = parseFloat(price);
+    if (isNaN(priceNum) || priceNum < 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a valid retention price.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("retention_slots").insert({
+        tournament_id: tournamentId,
+        slot_number: (slots[slots.length - 1]?.slot_number ?? 0) + 1,
+        price: priceNum,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Retention slot added." });
+      setPrice("");
+      fetchSlots();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save retention slot.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRtm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const allowanceNum = parseInt(rtmAllowance);
+    const secondsNum = parseInt(rtmSeconds);
+    if (isNaN(allowanceNum) || allowanceNum < 0 || isNaN(secondsNum) || secondsNum < 5 || secondsNum > 60) {
+      toast({
+        title: "Validation Error",
+        description: "Cards can't be negative and the match window must be 5-60 seconds.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingRtm(true);
+    try {
+      const { error } = await supabase
+        .from("tournaments")
+        .update({ rtm_allowance: allowanceNum, rtm_seconds: secondsNum })
+        .eq("id", tournamentId);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Right to Match settings saved." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save Right to Match settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRtm(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("retention_slots").delete().eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Retention slot deleted." });
+      fetchSlots();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete retention slot.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Retentions & Right to Match
+          </DialogTitle>
+          <DialogDescription>
+            Each team can keep one player per slot for {tournamentName} before the
+            auction. The slot price comes off the team's purse.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Add Form */}
+        <form onSubmit={handleSubmit} className="flex items-end gap-4">
+          <div className="flex-1 space-y-2">
+            <Label>Slot {(slots[slots.length - 1]?.slot_number ?? 0) + 1} Price (₹)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="e.g., 50000"
+            />
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Slot
+          </Button>
+        </form>
+
+        {/* Slots Table */}
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Slot</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : slots.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    No retention slots. Teams can't retain players.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                slots.map((slot) => (
+                  <TableRow key={slot.id}>
+                    <TableCell className="font-medium">Slot {slot.slot_number}</TableCell>
+                    <TableCell>{formatCurrency(slot.price)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(slot.id)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {retainedCount} player{retainedCount === 1 ? "" : "s"} retained so far. Changing
+          slots doesn't reprice existing retentions.
+        </p>
+
+        {/* Right to Match */}
+        <form onSubmit={handleSaveRtm} className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rtmAllowance">RTM Cards per Team</Label>
+              <Input
+                id="rtmAllowance"
+                type="number"
+                min="0"
+                value={rtmAllowance}
+                onChange={(e) => setRtmAllowance(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rtmSeconds">Match Window (seconds)</Label>
+              <Input
+                id="rtmSeconds"
+                type="number"
+                min="5"
+                max="60"
+                value={rtmSeconds}
+                onChange={(e) => setRtmSeconds(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            When a player goes to another team, the team set as their previous team in the
+            auction pool can match the winning bid. Set cards to 0 to turn this off.
+          </p>
+          <Button type="submit" variant="outline" disabled={savingRtm}>
+            {savingRtm && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save RTM Settings
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Plus, Trash2, ShieldCheck } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { getPlayerCategoryLabel, getPlayerTypeLabel, getSquadRuleTargetLabel } from "@/lib/auction";
+
+const PLAYER_TYPES = ["batsman", "bowler", "all_rounder", "wicket_keeper"] as const;
+const PLAYER_CATEGORIES = ["a_plus", "a", "b", "c"] as const;
+
+interface SquadRule {
+  id: string;
+  rule_type: string;
+  target: string;
+  min_count: number | null;
+  max_count: number | null;
+}
+
+interface SquadRulesConfigModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+}
+
+export function SquadRulesConfigModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+}: SquadRulesConfigModalProps) {
+  const [rules, setRules] = useState<SquadRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Form state; rule holds "<rule_type>:<target>"
+  const [rule, setRule] = useState("");
+  const [minCount, setMinCount] = useState("");
+  const [maxCount, setMaxCount] = useState("");
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("squad_rules")
+        .select("id, rule_type, target, min_count, max_count")
+        .eq("tournament_id", tournamentId)
+        .order("rule_type", { ascending: false })
+        .order("target", { ascending: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load squad rules.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchRules();
+    }
+  }, [open, fetchRules]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const [ruleType, target] = rule.split(":");
+    const min = minCount ? parseInt(minCount) : null;
+    const max = maxCount ? parseInt(maxCount) : null;
+
+    if (!ruleType || !target || (min === null && max === null)) {
+      toast({
+        title: "Validation Error",
+        description: "Pick a role or grade and set a minimum, a maximum or both.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if ((min !== null && min < 0) || (max !== null && max < 0) || (min !== null && max !== null && min > max)) {
+      toast({
+        title: "Validation Error",
+        description: "Minimum must not be greater than the maximum.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("squad_rules").upsert(
+        {
+          tournament_id: tournamentId,
+          rule_type: ruleType,
+          target,
+          min_count: min,
+          max_count: max,
+        },
+        { onConflict: "tournament_id,rule_type,target" }
+      );
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Squad rule saved." });
+      setRule("");
+      setMinCount("");
+      setMaxCount("");
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save squad rule.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("squad_rules").delete().eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Squad rule deleted." });
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to delete squad rule.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Squad Rules
+          </DialogTitle>
+          <DialogDescription>
+            Limit squad make-up for {tournamentName}. Per-category caps come from
+            Max Players in Category Config.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Add Form */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={rule} onValueChange={setRule}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Role or grade" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Role</SelectLabel>
+                    {PLAYER_TYPES.map((type) => (
+                      <SelectItem key={type} value={`player_type:${type}`}>
+                        {getPlayerTypeLabel(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Grade</SelectLabel>
+                    {PLAYER_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={`player_category:${category}`}>
+                        {getPlayerCategoryLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Minimum</Label>
+              <Input
+                type="number"
+                min="0"
+                value={minCount}
+                onChange={(e) => setMinCount(e.target.value)}
+                placeholder="e.g., 1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Maximum</Label>
+              <Input
+                type="number"
+                min="0"
+                value={maxCount}
+                onChange={(e) => setMaxCount(e.target.value)}
+                placeholder="e.g., 4"
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Save Rule
+          </Button>
+        </form>
+
+        {/* Rules Table */}
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Minimum</TableHead>
+                <TableHead>Maximum</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    No squad rules configured yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-medium">
+                      {getSquadRuleTargetLabel(r.rule_type, r.target)}
+                    </TableCell>
+                    <TableCell>{r.min_count ?? "—"}</TableCell>
+                    <TableCell>{r.max_count ?? "—"}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(r.id)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
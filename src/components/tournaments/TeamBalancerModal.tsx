@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Scale, Shuffle, Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  getAuctionErrorToast,
+  getCategoryBadgeColor,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
+import {
+  balanceTeams,
+  getBalanceScore,
+  getPlayerStrength,
+  type BalancePlayer,
+} from "@/lib/team-balancer";
+
+// Index used for the bench in a selection
+const BENCH = -1;
+
+interface Selection {
+  group: number;
+  index: number;
+}
+
+interface TeamBalancerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+}
+
+export function TeamBalancerModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+}: TeamBalancerModalProps) {
+  const [players, setPlayers] = useState<BalancePlayer[]>([]);
+  const [teamCount, setTeamCount] = useState(0);
+  const [playersPerTeam, setPlayersPerTeam] = useState(0);
+  const [teams, setTeams] = useState<BalancePlayer[][]>([]);
+  const [bench, setBench] = useState<BalancePlayer[]>([]);
+  const [teamNames, setTeamNames] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const shuffle = useCallback(
+    (pool: BalancePlayer[], count: number, perTeam: number) => {
+      const split = balanceTeams(pool, count, perTeam);
+      setTeams(split.teams);
+      setBench(split.unassigned);
+      setSelected(null);
+    },
+    []
+  );
+
+  const fetchPlayers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [tournamentRes, applicationsRes] = await Promise.all([
+        supabase
+          .from("tournaments")
+          .select("number_of_teams, players_per_team")
+          .eq("id", tournamentId)
+          .single(),
+        supabase
+          .from("tournament_applications")
+          .select("player_id")
+          .eq("tournament_id", tournamentId)
+          .eq("status", "approved"),
+      ]);
+
+      if (tournamentRes.error) throw tournamentRes.error;
+      if (applicationsRes.error) throw applicationsRes.error;
+
+      const playerIds = (applicationsRes.data || []).map((a) => a.player_id);
+      let pool: BalancePlayer[] = [];
+      if (playerIds.length > 0) {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("user_id, full_name, player_category, player_type, bowling_style")
+          .in("user_id", playerIds);
+
+        if (error) throw error;
+        pool = data || [];
+      }
+
+      const { number_of_teams, players_per_team } = tournamentRes.data;
+      setPlayers(pool);
+      setTeamCount(number_of_teams);
+      setPlayersPerTeam(players_per_team);
+      setTeamNames(Array.from({ length: number_of_teams }, (_, i) => `Team ${i + 1}`));
+      shuffle(pool, number_of_teams, players_per_team);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load approved players.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId, shuffle]);
+
+  useEffect(() => {
+    if (open) {
+      fetchPlayers();
+    }
+  }, [open, fetchPlayers]);
+
+  // Click one player, then a player in another team (or the bench) to swap them
+  const handleSelect = (group: number, index: number) => {
+    if (!selected || selected.group === group) {
+      setSelected(
+        selected?.group === group && selected.index === index ? null : { group, index }
+      );
+      return;
+    }
+
+    const nextTeams = teams.map((team) => [...team]);
+    const nextBench = [...bench];
+    const groupOf = (g: number) => (g === BENCH ? nextBench : nextTeams[g]);
+    const from = groupOf(selected.group);
+    const to = groupOf(group);
+    [from[selected.index], to[index]] = [to[index], from[selected.index]];
+
+    setTeams(nextTeams);
+    setBench(nextBench);
+    setSelected(null);
+  };
+
+  const handleCreate = async () => {
+    if (teamNames.some((name) => !name.trim())) {
+      toast({
+        title: "Validation Error",
+        description: "Every team needs a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("create_balanced_teams", {
+      _tournament_id: tournamentId,
+      _teams: teams.map((team, i) => ({
+        name: teamNames[i].trim(),
+        player_ids: team.map((p) => p.user_id),
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error, "Failed to create teams."), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Teams Created",
+      description: `${teams.length} balanced teams have been created for ${tournamentName}.`,
+    });
+    onOpenChange(false);
+  };
+
+  const renderPlayer = (player: BalancePlayer, group: number, index: number) => {
+    const isSelected = selected?.group === group && selected.index === index;
+    return (
+      <button
+        key={player.user_id}
+        type="button"
+        onClick={() => handleSelect(group, index)}
+        className={`w-full flex items-center justify-between gap-2 rounded-md border px-2 py-1.5 text-left text-sm transition-colors ${isSelected ? "border-primary bg-primary/10" : "hover:bg-muted/50"}`}
+      >
+        <div className="min-w-0">
+          <p className="font-medium truncate">{player.full_name || "Player"}</p>
+          <p className="text-xs text-muted-foreground">{getPlayerTypeLabel(player.player_type)}</p>
+        </div>
+        {player.player_category && (
+          <Badge className={getCategoryBadgeColor(player.player_category)}>
+            {getPlayerCategoryLabel(player.player_category)}
+          </Badge>
+        )}
+      </button>
+    );
+  };
+
+  const score = getBalanceScore(teams);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Auto-Balance Teams
+          </DialogTitle>
+          <DialogDescription>
+            Split the approved players of {tournamentName} into {teamCount} teams of up to{" "}
+            {playersPerTeam}, balancing grade, role and bowling style. Click two players in
+            different teams to swap them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : players.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            There are no approved players to split yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg bg-muted/50 px-4 py-3">
+              <div>
+                <p className="text-sm text-muted-foreground">Balance Score</p>
+                <p className="font-display text-2xl font-bold">{score}/100</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => shuffle(players, teamCount, playersPerTeam)}
+                disabled={saving}
+              >
+                <Shuffle className="h-4 w-4 mr-2" />
+                Reshuffle
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {teams.map((team, teamIndex) => (
+                <div key={teamIndex} className="rounded-lg border p-3 space-y-2">
+                  <Input
+                    value={teamNames[teamIndex] ?? ""}
+                    onChange={(e) =>
+                      setTeamNames((prev) =>
+                        prev.map((name, i) => (i === teamIndex ? e.target.value : name))
+                      )
+                    }
+                    className="h-8 font-semibold"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {team.length} players · strength{" "}
+                    {team.reduce((sum, p) => sum + getPlayerStrength(p), 0)}
+                  </p>
+                  {team.map((player, index) => renderPlayer(player, teamIndex, index))}
+                </div>
+              ))}
+            </div>
+
+            {bench.length > 0 && (
+              <div className="rounded-lg border border-dashed p-3 space-y-2">
+                <p className="text-sm font-medium">
+                  Bench ({bench.length}) · no room left in any team
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                  {bench.map((player, index) => renderPlayer(player, BENCH, index))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={loading || saving || players.length === 0}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4 mr-2" />
+            )}
+            Create Teams
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
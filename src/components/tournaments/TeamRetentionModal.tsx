@@ -0,0 +1,238 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, UserCheck, UserMinus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { formatCurrency, getAuctionErrorToast, getPlayerTypeLabel } from "@/lib/auction";
+
+type Retention = Tables<"retentions">;
+type Applicant = Pick<Tables<"profiles">, "user_id" | "full_name" | "player_type">;
+
+interface TeamRetentionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  teamId: string;
+  teamName: string;
+  onChanged?: () => void;
+}
+
+export function TeamRetentionModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  teamId,
+  teamName,
+  onChanged,
+}: TeamRetentionModalProps) {
+  const [slotPrices, setSlotPrices] = useState<Record<number, number>>({});
+  const [retentions, setRetentions] = useState<Retention[]>([]);
+  const [applicants, setApplicants] = useState<Applicant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [playerId, setPlayerId] = useState("");
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [slotsRes, retentionsRes, applicationsRes] = await Promise.all([
+        supabase
+          .from("retention_slots")
+          .select("slot_number, price")
+          .eq("tournament_id", tournamentId),
+        supabase
+          .from("retentions")
+          .select("*")
+          .eq("tournament_id", tournamentId)
+          .order("slot_number", { ascending: true }),
+        supabase
+          .from("tournament_applications")
+          .select("player_id")
+          .eq("tournament_id", tournamentId)
+          .eq("status", "approved"),
+      ]);
+
+      if (slotsRes.error) throw slotsRes.error;
+      if (retentionsRes.error) throw retentionsRes.error;
+      if (applicationsRes.error) throw applicationsRes.error;
+
+      setSlotPrices(
+        Object.fromEntries((slotsRes.data || []).map((s) => [s.slot_number, s.price]))
+      );
+      setRetentions(retentionsRes.data || []);
+
+      const playerIds = (applicationsRes.data || []).map((a) => a.player_id);
+      if (playerIds.length > 0) {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("user_id, full_name, player_type")
+          .in("user_id", playerIds)
+          .order("full_name", { ascending: true });
+
+        if (error) throw error;
+        setApplicants(data || []);
+      } else {
+        setApplicants([]);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load retentions.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchData();
+    }
+  }, [open, fetchData]);
+
+  const teamRetentions = retentions.filter((r) => r.team_id === teamId);
+  const retainedIds = new Set(retentions.map((r) => r.player_id));
+  const available = applicants.filter((a) => !retainedIds.has(a.user_id));
+  const slotNumbers = Object.keys(slotPrices).map(Number).sort((a, b) => a - b);
+  const usedSlots = new Set(teamRetentions.map((r) => r.slot_number));
+  const nextSlot = slotNumbers.find((n) => !usedSlots.has(n));
+  const applicantName = (id: string) =>
+    applicants.find((a) => a.user_id === id)?.full_name || "Player";
+
+  const runRetentionAction = async (
+    action: () => PromiseLike<{ error: { message: string; hint?: string | null } | null }>,
+    successMessage: string
+  ) => {
+    setSaving(true);
+    const { error } = await action();
+    setSaving(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+      return;
+    }
+    toast({ title: "Success", description: successMessage });
+    setPlayerId("");
+    fetchData();
+    onChanged?.();
+  };
+
+  const handleRetain = () => {
+    if (!playerId) return;
+    runRetentionAction(
+      () => supabase.rpc("retain_player", { _team_id: teamId, _player_id: playerId }),
+      `${applicantName(playerId)} retained.`
+    );
+  };
+
+  const handleRelease = (retention: Retention) => {
+    runRetentionAction(
+      () => supabase.rpc("release_retention", { _team_id: teamId, _player_id: retention.player_id }),
+      `${applicantName(retention.player_id)} released to the auction.`
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Retain Players
+          </DialogTitle>
+          <DialogDescription>
+            {teamName} has used {teamRetentions.length} of {slotNumbers.length} retention
+            slot{slotNumbers.length === 1 ? "" : "s"}. Retained players skip the auction.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {teamRetentions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No players retained yet.
+                </p>
+              ) : (
+                teamRetentions.map((retention) => (
+                  <div
+                    key={retention.id}
+                    className="flex items-center justify-between p-3 rounded-lg border"
+                  >
+                    <div>
+                      <p className="font-medium text-sm">{applicantName(retention.player_id)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Slot {retention.slot_number} · {formatCurrency(retention.price)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={saving}
+                      onClick={() => handleRelease(retention)}
+                    >
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Release
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {nextSlot !== undefined ? (
+              <div className="space-y-2">
+                <Label>Retain an Approved Player</Label>
+                <div className="flex gap-2">
+                  <Select value={playerId} onValueChange={setPlayerId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select player" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {available.map((applicant) => (
+                        <SelectItem key={applicant.user_id} value={applicant.user_id}>
+                          {applicant.full_name} · {getPlayerTypeLabel(applicant.player_type)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleRetain} disabled={saving || !playerId}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Retain for {formatCurrency(slotPrices[nextSlot])}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {slotNumbers.length === 0
+                  ? "The organizer hasn't opened any retention slots."
+                  : "All retention slots are used."}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { MoreVertical, Users, Settings, Timer, UserPlus, Vote, Eye, Play, Square } from "lucide-react";
+import { MoreVertical, Users, Settings, Timer, TrendingUp, ShieldCheck, UserCheck, UserPlus, Vote, Eye, Play, Square, Gavel, ListOrdered, Scale, ArrowLeftRight } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,8 +11,15 @@ import {
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { getAuctionErrorToast } from "@/lib/auction";
 import { CategoryConfigModal } from "./CategoryConfigModal";
 import { BidTimerConfigModal } from "./BidTimerConfigModal";
+import { BidIncrementConfigModal } from "./BidIncrementConfigModal";
+import { SquadRulesConfigModal } from "./SquadRulesConfigModal";
+import { RetentionConfigModal } from "./RetentionConfigModal";
+import { TeamBalancerModal } from "./TeamBalancerModal";
+import { AuctionReadinessModal } from "./AuctionReadinessModal";
+import { TradeWindowModal } from "./TradeWindowModal";
 
 interface TournamentActionMenuProps {
   tournamentId: string;
@@ -20,8 +27,12 @@ interface TournamentActionMenuProps {
   numTeams: number;
   currentTeamsCount: number;
   isCaptainVoting: boolean;
+  isDraft: boolean;
+  isNormal: boolean;
   isVotingLive: boolean;
   onVotingToggle?: () => void;
+  isAuctionLive: boolean;
+  onAuctionToggle?: () => void;
 }
 
 export function TournamentActionMenu({
@@ -30,12 +41,23 @@ export function TournamentActionMenu({
   numTeams,
   currentTeamsCount,
   isCaptainVoting,
+  isDraft,
+  isNormal,
   isVotingLive,
   onVotingToggle,
+  isAuctionLive,
+  onAuctionToggle,
 }: TournamentActionMenuProps) {
   const [categoryModalOpen, setCategoryModalOpen] = useState(false);
   const [timerModalOpen, setTimerModalOpen] = useState(false);
+  const [incrementModalOpen, setIncrementModalOpen] = useState(false);
+  const [squadRulesModalOpen, setSquadRulesModalOpen] = useState(false);
+  const [retentionModalOpen, setRetentionModalOpen] = useState(false);
+  const [balancerModalOpen, setBalancerModalOpen] = useState(false);
+  const [readinessModalOpen, setReadinessModalOpen] = useState(false);
+  const [tradeModalOpen, setTradeModalOpen] = useState(false);
   const [isTogglingVoting, setIsTogglingVoting] = useState(false);
+  const [isTogglingAuction, setIsTogglingAuction] = useState(false);
 
   const hasAllTeams = currentTeamsCount >= numTeams;
 
@@ -68,6 +90,35 @@ export function TournamentActionMenu({
     }
   };
 
+  const handleToggleAuction = async () => {
+    setIsTogglingAuction(true);
+    try {
+      const { error } = await supabase
+        .from("tournaments")
+        .update({ is_auction_live: !isAuctionLive })
+        .eq("id", tournamentId);
+
+      if (error) throw error;
+
+      toast({
+        title: isAuctionLive ? "Auction Stopped" : "Auction Started",
+        description: isAuctionLive
+          ? "The auction is no longer live."
+          : "The auction is now live!",
+      });
+
+      setReadinessModalOpen(false);
+      onAuctionToggle?.();
+    } catch (error) {
+      toast({
+        ...getAuctionErrorToast(error as { message: string }, "Failed to toggle auction."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsTogglingAuction(false);
+    }
+  };
+
   return (
     <>
       <DropdownMenu>
@@ -88,6 +139,14 @@ export function TournamentActionMenu({
             </Link>
           </DropdownMenuItem>
 
+          {/* Auto-Balance Teams - Normal tournaments without teams */}
+          {isNormal && currentTeamsCount === 0 && (
+            <DropdownMenuItem onClick={() => setBalancerModalOpen(true)}>
+              <Scale className="h-4 w-4 mr-2" />
+              Auto-Balance Teams
+            </DropdownMenuItem>
+          )}
+
           {/* Category Config */}
           <DropdownMenuItem onClick={() => setCategoryModalOpen(true)}>
             <Settings className="h-4 w-4 mr-2" />
@@ -100,6 +159,72 @@ export function TournamentActionMenu({
             Bid Timer Config
           </DropdownMenuItem>
 
+          {/* Bid Increment Config */}
+          <DropdownMenuItem onClick={() => setIncrementModalOpen(true)}>
+            <TrendingUp className="h-4 w-4 mr-2" />
+            Bid Increments
+          </DropdownMenuItem>
+
+          {/* Squad Rules Config */}
+          <DropdownMenuItem onClick={() => setSquadRulesModalOpen(true)}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Squad Rules
+          </DropdownMenuItem>
+
+          {/* Retention & RTM Config */}
+          <DropdownMenuItem onClick={() => setRetentionModalOpen(true)}>
+            <UserCheck className="h-4 w-4 mr-2" />
+            Retentions & RTM
+          </DropdownMenuItem>
+
+          {/* Trade Window Config */}
+          <DropdownMenuItem onClick={() => setTradeModalOpen(true)}>
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Trade Window
+          </DropdownMenuItem>
+
+          <DropdownMenuSeparator />
+
+          {/* Auction Controls */}
+          <DropdownMenuItem
+            onClick={isAuctionLive ? handleToggleAuction : () => setReadinessModalOpen(true)}
+            disabled={isTogglingAuction}
+          >
+            {isAuctionLive ? (
+              <>
+                <Square className="h-4 w-4 mr-2" />
+                Stop Auction
+              </>
+            ) : (
+              <>
+                <Play className="h-4 w-4 mr-2" />
+                Start Auction
+              </>
+            )}
+          </DropdownMenuItem>
+
+          <DropdownMenuItem asChild>
+            <Link
+              to={`/tournaments/${tournamentId}/auction/console`}
+              className="flex items-center gap-2"
+            >
+              <Gavel className="h-4 w-4" />
+              Auction Console
+            </Link>
+          </DropdownMenuItem>
+
+          {isDraft && (
+            <DropdownMenuItem asChild>
+              <Link
+                to={`/tournaments/${tournamentId}/draft`}
+                className="flex items-center gap-2"
+              >
+                <ListOrdered className="h-4 w-4" />
+                Draft Board
+              </Link>
+            </DropdownMenuItem>
+          )}
+
           {/* Captain Voting Options - Only if enabled */}
           {isCaptainVoting && (
             <>
@@ -159,6 +284,50 @@ export function TournamentActionMenu({
         tournamentId={tournamentId}
         tournamentName={tournamentName}
       />
+
+      <BidIncrementConfigModal
+        open={incrementModalOpen}
+        onOpenChange={setIncrementModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+      />
+
+      <SquadRulesConfigModal
+        open={squadRulesModalOpen}
+        onOpenChange={setSquadRulesModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+      />
+
+      <RetentionConfigModal
+        open={retentionModalOpen}
+        onOpenChange={setRetentionModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+      />
+
+      <TradeWindowModal
+        open={tradeModalOpen}
+        onOpenChange={setTradeModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+      />
+
+      <AuctionReadinessModal
+        open={readinessModalOpen}
+        onOpenChange={setReadinessModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+        onGoLive={handleToggleAuction}
+        goingLive={isTogglingAuction}
+      />
+
+      <TeamBalancerModal
+        open={balancerModalOpen}
+        onOpenChange={setBalancerModalOpen}
+        tournamentId={tournamentId}
+        tournamentName={tournamentName}
+      />
     </>
   );
 }
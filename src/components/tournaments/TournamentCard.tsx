@@ -32,6 +32,7 @@ interface TournamentCardProps {
   tournament: Tournament & {
     captain_voting_enabled?: boolean;
     is_voting_live?: boolean;
+    is_auction_live?: boolean;
     number_of_teams?: number;
     tournament_type?: string;
   };
@@ -43,6 +44,7 @@ export function TournamentCard({ tournament, onDelete, teamsCount = 0 }: Tournam
   const { user } = useAuth();
   const [isDeleting, setIsDeleting] = useState(false);
   const [isVotingLive, setIsVotingLive] = useState(tournament.is_voting_live || false);
+  const [isAuctionLive, setIsAuctionLive] = useState(tournament.is_auction_live || false);
   const isLive = tournament.status === 'live' || tournament.status === 'auction';
   const isOwner = user && tournament.organizer_id === user.id;
   const isCaptainVoting = tournament.captain_voting_enabled || tournament.tournament_type === 'Auction with Voting';
@@ -103,8 +105,12 @@ export function TournamentCard({ tournament, onDelete, teamsCount = 0 }: Tournam
               numTeams={tournament.number_of_teams || tournament.total_teams}
               currentTeamsCount={teamsCount}
               isCaptainVoting={isCaptainVoting}
+              isDraft={tournament.tournament_type === 'Draft'}
+              isNormal={tournament.tournament_type === 'Normal'}
               isVotingLive={isVotingLive}
               onVotingToggle={() => setIsVotingLive(!isVotingLive)}
+              isAuctionLive={isAuctionLive}
+              onAuctionToggle={() => setIsAuctionLive(!isAuctionLive)}
             />
           </div>
         )}
@@ -45,6 +45,13 @@ const tournamentTypes = [
   { value: "Normal", label: "Normal" },
   { value: "Auction", label: "Auction" },
   { value: "Auction with Voting", label: "Auction with Voting" },
+  { value: "Sealed Bid", label: "Sealed Bid" },
+  { value: "Draft", label: "Draft" },
+];
+
+const sealedTieBreaks = [
+  { value: "earliest_bid", label: "Earliest bid wins" },
+  { value: "lower_spent", label: "Team that has spent less wins" },
 ];
 
 const categories = [
@@ -99,7 +106,9 @@ export function TournamentForm({ form }: TournamentFormProps) {
 
   const tournamentType = form.watch("tournamentType");
   const showVotingFields = tournamentType === "Auction with Voting";
-  const showAuctionFields = tournamentType === "Auction" || tournamentType === "Auction with Voting";
+  const showSealedFields = tournamentType === "Sealed Bid";
+  const showAuctionFields =
+    tournamentType === "Auction" || tournamentType === "Auction with Voting" || showSealedFields;
 
   // Fetch states when modal opens
   const fetchStates = async () => {
@@ -278,6 +287,8 @@ export function TournamentForm({ form }: TournamentFormProps) {
               {tournamentType === "Normal" && "Players/teams register directly. No auction."}
               {tournamentType === "Auction" && "Players apply, organizer creates teams, captains bid on players."}
               {tournamentType === "Auction with Voting" && "Players vote for captains, then auction starts."}
+              {tournamentType === "Sealed Bid" && "Players apply, then each team places one hidden bid per player."}
+              {tournamentType === "Draft" && "Players apply, then team captains pick them in snake order. No money involved."}
             </FormDescription>
             <FormMessage />
           </FormItem>
@@ -695,6 +706,34 @@ export function TournamentForm({ form }: TournamentFormProps) {
                 )}
               />
             </div>
+
+            {showSealedFields && (
+              <FormField
+                control={form.control}
+                name="sealedTieBreak"
+                render={({ field }) => (
+                  <FormItem className="mt-6">
+                    <FormLabel>Tie-Break *</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select tie-break" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {sealedTieBreaks.map((tieBreak) => (
+                          <SelectItem key={tieBreak.value} value={tieBreak.value}>
+                            {tieBreak.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Decides the winner when sealed bids are equal</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
           </div>
         </>
       )}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeftRight, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { toDateTimeLocal } from "@/lib/trades";
+
+interface TradeWindowModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tournamentId: string;
+  tournamentName: string;
+}
+
+export function TradeWindowModal({
+  open,
+  onOpenChange,
+  tournamentId,
+  tournamentName,
+}: TradeWindowModalProps) {
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [pendingCount, setPendingCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchWindow = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [tournamentRes, pendingRes] = await Promise.all([
+        supabase
+          .from("tournaments")
+          .select("trade_window_opens_at, trade_window_closes_at")
+          .eq("id", tournamentId)
+          .single(),
+        supabase
+          .from("trades")
+          .select("id", { count: "exact", head: true })
+          .eq("tournament_id", tournamentId)
+          .eq("status", "accepted"),
+      ]);
+
+      if (tournamentRes.error) throw tournamentRes.error;
+      setOpensAt(toDateTimeLocal(tournamentRes.data.trade_window_opens_at));
+      setClosesAt(toDateTimeLocal(tournamentRes.data.trade_window_closes_at));
+      setPendingCount(pendingRes.count || 0);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load the trade window.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchWindow();
+    }
+  }, [open, fetchWindow]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!!opensAt !== !!closesAt || (opensAt && new Date(closesAt) <= new Date(opensAt))) {
+      toast({
+        title: "Validation Error",
+        description: "Set both times, with the window closing after it opens.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("tournaments")
+        .update({
+          trade_window_opens_at: opensAt ? new Date(opensAt).toISOString() : null,
+          trade_window_closes_at: closesAt ? new Date(closesAt).toISOString() : null,
+        })
+        .eq("id", tournamentId);
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: opensAt ? "Trade window saved." : "Trading turned off.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save the trade window.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Trade Window
+          </DialogTitle>
+          <DialogDescription>
+            Owners in {tournamentName} can propose and accept trades between these times.
+            Every trade still needs your approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tradeOpensAt">Opens</Label>
+                <Input
+                  id="tradeOpensAt"
+                  type="datetime-local"
+                  value={opensAt}
+                  onChange={(e) => setOpensAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tradeClosesAt">Closes</Label>
+                <Input
+                  id="tradeClosesAt"
+                  type="datetime-local"
+                  value={closesAt}
+                  onChange={(e) => setClosesAt(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Clear both times to turn trading off. Trades are paused while the auction is live.
+            </p>
+
+            <div className="flex items-center justify-between gap-4">
+              <Button variant="link" className="px-0" asChild>
+                <Link to={`/tournaments/${tournamentId}/trades`}>
+                  {pendingCount > 0
+                    ? `${pendingCount} trade${pendingCount === 1 ? "" : "s"} awaiting approval`
+                    : "View trades"}
+                </Link>
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Window
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
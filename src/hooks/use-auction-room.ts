@@ -0,0 +1,329 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { BidIncrementSlab } from "@/lib/auction";
+
+export type AuctionTournament = Tables<"tournaments">;
+export type AuctionTeam = Tables<"teams">;
+export type AuctionTeamPlayer = Tables<"team_players">;
+export type AuctionBid = Tables<"auction_bids">;
+export type AuctionState = Tables<"auction_state">;
+export type AuctionPoolEntry = Tables<"auction_pool">;
+export type BidIncrement = Tables<"bid_increments">;
+export type AuctionPlayerProfile = Pick<
+  Tables<"profiles">,
+  "user_id" | "full_name" | "avatar_url" | "player_type" | "player_category"
+>;
+
+const byHighestBid = (a: AuctionBid, b: AuctionBid) =>
+  b.bid_amount - a.bid_amount || Date.parse(a.bid_at) - Date.parse(b.bid_at);
+
+/**
+ * Live view of a tournament's auction room. Loads the tournament, teams,
+ * squads, the auction pool and the lot under the hammer, then keeps them in
+ * sync through a Realtime channel so every client renders the same lot, bid
+ * and countdown.
+ */
+export function useAuctionRoom(tournamentId: string | undefined) {
+  const [tournament, setTournament] = useState<AuctionTournament | null>(null);
+  const [teams, setTeams] = useState<AuctionTeam[]>([]);
+  const [teamPlayers, setTeamPlayers] = useState<AuctionTeamPlayer[]>([]);
+  const [state, setState] = useState<AuctionState | null>(null);
+  const [lotBids, setLotBids] = useState<AuctionBid[]>([]);
+  const [pool, setPool] = useState<AuctionPoolEntry[]>([]);
+  const [bidIncrements, setBidIncrements] = useState<BidIncrement[]>([]);
+  const [categoryIds, setCategoryIds] = useState<Record<string, string>>({});
+  const [categoryBasePrices, setCategoryBasePrices] = useState<number[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, AuctionPlayerProfile>>({});
+  const [bidTime, setBidTime] = useState(10);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+
+  const teamIdsRef = useRef<string[]>([]);
+  const stateRef = useRef<AuctionState | null>(null);
+  const requestedProfilesRef = useRef<Set<string>>(new Set());
+
+  stateRef.current = state;
+
+  const fetchTeamPlayers = useCallback(async (teamIds: string[]) => {
+    if (teamIds.length === 0) {
+      setTeamPlayers([]);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("team_players")
+      .select("*")
+      .in("team_id", teamIds)
+      .order("sold_at", { ascending: false });
+
+    if (!error) setTeamPlayers(data || []);
+  }, []);
+
+  const fetchTeams = useCallback(async () => {
+    if (!tournamentId) return;
+    const { data, error } = await supabase
+      .from("teams")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .order("created_at", { ascending: true });
+
+    if (error) return;
+    teamIdsRef.current = (data || []).map((t) => t.id);
+    setTeams(data || []);
+    await fetchTeamPlayers(teamIdsRef.current);
+  }, [tournamentId, fetchTeamPlayers]);
+
+  const fetchPool = useCallback(async () => {
+    if (!tournamentId) return;
+    const { data, error } = await supabase
+      .from("auction_pool")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .order("lot_order", { ascending: true });
+
+    if (!error) setPool(data || []);
+  }, [tournamentId]);
+
+  const fetchBidIncrements = useCallback(async () => {
+    if (!tournamentId) return;
+    const { data, error } = await supabase
+      .from("bid_increments")
+      .select("*")
+      .eq("tournament_id", tournamentId);
+
+    if (!error) setBidIncrements(data || []);
+  }, [tournamentId]);
+
+  const fetchLotBids = useCallback(async (lot: AuctionState | null) => {
+    if (!lot?.current_player_id || !lot.lot_opened_at) {
+      setLotBids([]);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("auction_bids")
+      .select("*")
+      .eq("tournament_id", lot.tournament_id)
+      .eq("player_id", lot.current_player_id)
+      .gte("bid_at", lot.lot_opened_at)
+      .order("bid_at", { ascending: false });
+
+    if (!error) setLotBids(data || []);
+  }, []);
+
+  const fetchAll = useCallback(async () => {
+    if (!tournamentId) return;
+    setLoading(true);
+
+    const requestStart = Date.now();
+    const [tournamentRes, stateRes, timerRes, configRes, clockRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase.from("auction_state").select("*").eq("tournament_id", tournamentId).maybeSingle(),
+      supabase.from("auction_timer").select("bid_time").eq("tournament_id", tournamentId).maybeSingle(),
+      supabase
+        .from("auction_config")
+        .select("id, category, base_price, is_active")
+        .eq("tournament_id", tournamentId),
+      supabase.rpc("server_now"),
+    ]);
+
+    if (clockRes.data) {
+      const roundTripMidpoint = (requestStart + Date.now()) / 2;
+      setClockOffset(Date.parse(clockRes.data) - roundTripMidpoint);
+    }
+
+    setTournament(tournamentRes.data);
+    setState(stateRes.data);
+    setBidTime(timerRes.data?.bid_time ?? 10);
+    setCategoryIds(Object.fromEntries((configRes.data || []).map((c) => [c.category, c.id])));
+    setCategoryBasePrices(
+      (configRes.data || []).filter((c) => c.is_active).map((c) => c.base_price)
+    );
+
+    await Promise.all([
+      fetchTeams(),
+      fetchPool(),
+      fetchBidIncrements(),
+      fetchLotBids(stateRes.data),
+    ]);
+    setLoading(false);
+  }, [tournamentId, fetchTeams, fetchPool, fetchBidIncrements, fetchLotBids]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  // Realtime subscriptions
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const channel = supabase
+      .channel(`auction-room-${tournamentId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "tournaments", filter: `id=eq.${tournamentId}` },
+        (payload) => setTournament(payload.new as AuctionTournament)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "auction_state", filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => {
+          const next = payload.eventType === "DELETE" ? null : (payload.new as AuctionState);
+          const prev = stateRef.current;
+          setState(next);
+          if (
+            next?.current_player_id !== prev?.current_player_id ||
+            next?.lot_opened_at !== prev?.lot_opened_at
+          ) {
+            fetchLotBids(next);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "auction_bids", filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => {
+          const bid = payload.new as AuctionBid;
+          const lot = stateRef.current;
+          if (
+            lot?.current_player_id === bid.player_id &&
+            lot.lot_opened_at &&
+            Date.parse(bid.bid_at) >= Date.parse(lot.lot_opened_at)
+          ) {
+            setLotBids((prev) =>
+              prev.some((b) => b.id === bid.id) ? prev : [bid, ...prev]
+            );
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "auction_timer", filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => {
+          if (payload.eventType !== "DELETE") {
+            setBidTime((payload.new as Tables<"auction_timer">).bid_time);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "teams", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchTeams()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "auction_pool", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchPool()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "bid_increments", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchBidIncrements()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "team_players" },
+        (payload) => {
+          const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<AuctionTeamPlayer>;
+          if (row.team_id && teamIdsRef.current.includes(row.team_id)) {
+            fetchTeamPlayers(teamIdsRef.current);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tournamentId, fetchTeams, fetchTeamPlayers, fetchPool, fetchBidIncrements, fetchLotBids]);
+
+  // Load profiles for the lot, the pool and every sold player we haven't seen yet
+  useEffect(() => {
+    const ids = [
+      state?.current_player_id,
+      ...pool.map((entry) => entry.player_id),
+      ...teamPlayers.map((tp) => tp.player_id),
+    ].filter((id): id is string => !!id && !requestedProfilesRef.current.has(id));
+    if (ids.length === 0) return;
+    ids.forEach((id) => requestedProfilesRef.current.add(id));
+
+    supabase
+      .from("profiles")
+      .select("user_id, full_name, avatar_url, player_type, player_category")
+      .in("user_id", ids)
+      .then(({ data }) => {
+        if (!data) return;
+        setProfiles((prev) => {
+          const next = { ...prev };
+          data.forEach((p) => {
+            next[p.user_id] = p;
+          });
+          return next;
+        });
+      });
+  }, [state?.current_player_id, pool, teamPlayers]);
+
+  const highestBid = useMemo(() => [...lotBids].sort(byHighestBid)[0] ?? null, [lotBids]);
+
+  // Mirrors get_slot_reserve_price
+  const reservePrice =
+    categoryBasePrices.length > 0
+      ? Math.min(...categoryBasePrices)
+      : tournament?.base_price ?? 0;
+
+  // The lot's category ladder if it has one, else the tournament-wide ladder
+  const incrementSlabs = useMemo<BidIncrementSlab[]>(() => {
+    const lot = pool.find((entry) => entry.player_id === state?.current_player_id);
+    const configId = lot?.auction_category ? categoryIds[lot.auction_category] : undefined;
+    const categorySlabs = bidIncrements.filter((b) => !!configId && b.auction_config_id === configId);
+    return categorySlabs.length > 0
+      ? categorySlabs
+      : bidIncrements.filter((b) => b.auction_config_id === null);
+  }, [pool, state?.current_player_id, categoryIds, bidIncrements]);
+
+  // The server owns the deadline; place_bid pushes it back after each bid
+  const deadline =
+    state?.is_bidding_open && state.deadline_at ? Date.parse(state.deadline_at) : null;
+
+  // Right-to-Match window after the hammer, if one is open
+  const rtmDeadline =
+    state?.rtm_team_id && state.rtm_deadline_at ? Date.parse(state.rtm_deadline_at) : null;
+
+  // Tick only while a countdown is running
+  useEffect(() => {
+    if (deadline === null && rtmDeadline === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [deadline, rtmDeadline]);
+
+  let timeLeft: number | null = null;
+  if (state?.is_bidding_open && state.is_paused) {
+    timeLeft = Math.ceil(state.paused_remaining ?? 0);
+  } else if (deadline !== null) {
+    timeLeft = Math.max(0, Math.ceil((deadline - (now + clockOffset)) / 1000));
+  }
+
+  const rtmTimeLeft =
+    rtmDeadline !== null
+      ? Math.max(0, Math.ceil((rtmDeadline - (now + clockOffset)) / 1000))
+      : null;
+
+  return {
+    loading,
+    tournament,
+    teams,
+    teamPlayers,
+    state,
+    lotBids,
+    highestBid,
+    incrementSlabs,
+    reservePrice,
+    pool,
+    profiles,
+    bidTime,
+    timeLeft,
+    rtmTimeLeft,
+    refresh: fetchAll,
+  };
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AuctionPlayerProfile } from "@/hooks/use-auction-room";
+
+export type DraftTournament = Tables<"tournaments">;
+export type DraftTeam = Tables<"teams">;
+export type DraftState = Tables<"draft_state">;
+export type DraftPick = Tables<"draft_picks">;
+
+/**
+ * Live view of a tournament's snake draft. Loads the teams, the draft order,
+ * every pick so far and the approved applicants still available, then keeps
+ * them in sync through a Realtime channel so every captain sees the same
+ * board and pick clock.
+ */
+export function useDraftRoom(tournamentId: string | undefined) {
+  const [tournament, setTournament] = useState<DraftTournament | null>(null);
+  const [teams, setTeams] = useState<DraftTeam[]>([]);
+  const [draft, setDraft] = useState<DraftState | null>(null);
+  const [picks, setPicks] = useState<DraftPick[]>([]);
+  const [applicantIds, setApplicantIds] = useState<string[]>([]);
+  const [takenIds, setTakenIds] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, AuctionPlayerProfile>>({});
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+
+  const teamIdsRef = useRef<string[]>([]);
+  const requestedProfilesRef = useRef<Set<string>>(new Set());
+
+  const fetchTakenPlayers = useCallback(async (teamIds: string[]) => {
+    if (teamIds.length === 0) {
+      setTakenIds([]);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("team_players")
+      .select("player_id")
+      .in("team_id", teamIds);
+
+    if (!error) setTakenIds((data || []).map((tp) => tp.player_id));
+  }, []);
+
+  const fetchTeams = useCallback(async () => {
+    if (!tournamentId) return;
+    const { data, error } = await supabase
+      .from("teams")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .order("created_at", { ascending: true });
+
+    if (error) return;
+    teamIdsRef.current = (data || []).map((t) => t.id);
+    setTeams(data || []);
+    await fetchTakenPlayers(teamIdsRef.current);
+  }, [tournamentId, fetchTakenPlayers]);
+
+  const fetchPicks = useCallback(async () => {
+    if (!tournamentId) return;
+    const { data, error } = await supabase
+      .from("draft_picks")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .order("pick_number", { ascending: true });
+
+    if (!error) setPicks(data || []);
+  }, [tournamentId]);
+
+  const fetchAll = useCallback(async () => {
+    if (!tournamentId) return;
+    setLoading(true);
+
+    const requestStart = Date.now();
+    const [tournamentRes, draftRes, applicationsRes, clockRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase.from("draft_state").select("*").eq("tournament_id", tournamentId).maybeSingle(),
+      supabase
+        .from("tournament_applications")
+        .select("player_id")
+        .eq("tournament_id", tournamentId)
+        .eq("status", "approved"),
+      supabase.rpc("server_now"),
+    ]);
+
+    if (clockRes.data) {
+      const roundTripMidpoint = (requestStart + Date.now()) / 2;
+      setClockOffset(Date.parse(clockRes.data) - roundTripMidpoint);
+    }
+
+    setTournament(tournamentRes.data);
+    setDraft(draftRes.data);
+    setApplicantIds((applicationsRes.data || []).map((a) => a.player_id));
+
+    await Promise.all([fetchTeams(), fetchPicks()]);
+    setLoading(false);
+  }, [tournamentId, fetchTeams, fetchPicks]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  // Realtime subscriptions
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const channel = supabase
+      .channel(`draft-room-${tournamentId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "draft_state", filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => setDraft(payload.eventType === "DELETE" ? null : (payload.new as DraftState))
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "draft_picks", filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => {
+          const pick = payload.new as DraftPick;
+          setPicks((prev) =>
+            prev.some((p) => p.id === pick.id)
+              ? prev
+              : [...prev, pick].sort((a, b) => a.pick_number - b.pick_number)
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "teams", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchTeams()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "team_players" },
+        (payload) => {
+          const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<Tables<"team_players">>;
+          if (row.team_id && teamIdsRef.current.includes(row.team_id)) {
+            fetchTakenPlayers(teamIdsRef.current);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tournamentId, fetchTeams, fetchTakenPlayers]);
+
+  // Load profiles for applicants and captains we haven't seen yet
+  useEffect(() => {
+    const ids = [...applicantIds, ...teams.map((t) => t.captain_id)].filter(
+      (id): id is string => !!id && !requestedProfilesRef.current.has(id)
+    );
+    if (ids.length === 0) return;
+    ids.forEach((id) => requestedProfilesRef.current.add(id));
+
+    supabase
+      .from("profiles")
+      .select("user_id, full_name, avatar_url, player_type, player_category")
+      .in("user_id", ids)
+      .then(({ data }) => {
+        if (!data) return;
+        setProfiles((prev) => {
+          const next = { ...prev };
+          data.forEach((p) => {
+            next[p.user_id] = p;
+          });
+          return next;
+        });
+      });
+  }, [applicantIds, teams]);
+
+  const availableIds = applicantIds.filter((id) => !takenIds.includes(id));
+
+  // The server owns the pick deadline; make_draft_pick restarts it
+  const deadline =
+    draft?.pick_deadline_at && !draft.completed_at ? Date.parse(draft.pick_deadline_at) : null;
+
+  // Tick only while a pick is on the clock
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const timeLeft =
+    deadline !== null ? Math.max(0, Math.ceil((deadline - (now + clockOffset)) / 1000)) : null;
+
+  return {
+    loading,
+    tournament,
+    teams,
+    draft,
+    picks,
+    availableIds,
+    profiles,
+    timeLeft,
+    refresh: fetchAll,
+  };
+}
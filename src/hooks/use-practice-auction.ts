@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AuctionPlayerProfile } from "@/hooks/use-auction-room";
+import { getMaxAllowedBid, getNextBidAmount, type BidIncrementSlab } from "@/lib/auction";
+import {
+  getBotCeiling,
+  pickBotBid,
+  type BotStrategy,
+  type PracticeBid,
+  type PracticeLot,
+  type PracticeTeam,
+} from "@/lib/practice-auction";
+
+// Bots take a moment to "think" before raising
+const BOT_MIN_DELAY_MS = 700;
+const BOT_MAX_DELAY_MS = 1800;
+
+export interface PracticeBotSetup {
+  bot: BotStrategy | null;
+  focusCategory: string | null;
+}
+
+export interface PracticeSession {
+  teams: PracticeTeam[];
+  lots: PracticeLot[];
+  currentIndex: number | null;
+  bids: PracticeBid[];
+  ceilings: Record<string, number>;
+  deadline: number | null;
+}
+
+/**
+ * Offline rehearsal of a tournament's auction. Loads the real teams, pool,
+ * categories and bid rules once, then runs the whole auction in local state:
+ * the user plays one team and bots play the rest. Nothing is written back,
+ * so purses and squads in the database are never touched.
+ */
+export function usePracticeAuction(tournamentId: string | undefined) {
+  const [tournament, setTournament] = useState<Tables<"tournaments"> | null>(null);
+  const [sourceTeams, setSourceTeams] = useState<PracticeTeam[]>([]);
+  const [sourceLots, setSourceLots] = useState<PracticeLot[]>([]);
+  const [categories, setCategories] = useState<Tables<"auction_config">[]>([]);
+  const [bidIncrements, setBidIncrements] = useState<Tables<"bid_increments">[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, AuctionPlayerProfile>>({});
+  const [bidTime, setBidTime] = useState(10);
+  const [myTeamId, setMyTeamId] = useState<string | null>(null);
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(true);
+
+  const fetchAll = useCallback(async () => {
+    if (!tournamentId) return;
+    setLoading(true);
+
+    const [tournamentRes, teamsRes, poolRes, configRes, incrementsRes, timerRes] =
+      await Promise.all([
+        supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+        supabase
+          .from("teams")
+          .select("id, name, budget_remaining")
+          .eq("tournament_id", tournamentId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("auction_pool")
+          .select("*")
+          .eq("tournament_id", tournamentId)
+          .eq("is_included", true)
+          .in("status", ["upcoming", "unsold"])
+          .order("lot_order", { ascending: true }),
+        supabase.from("auction_config").select("*").eq("tournament_id", tournamentId),
+        supabase.from("bid_increments").select("*").eq("tournament_id", tournamentId),
+        supabase.from("auction_timer").select("bid_time").eq("tournament_id", tournamentId).maybeSingle(),
+      ]);
+
+    const teams = teamsRes.data || [];
+    const { data: squads } =
+      teams.length > 0
+        ? await supabase
+            .from("team_players")
+            .select("team_id, player_id")
+            .in("team_id", teams.map((t) => t.id))
+        : { data: [] };
+
+    setTournament(tournamentRes.data);
+    setSourceTeams(
+      teams.map((t) => ({
+        id: t.id,
+        name: t.name,
+        budget: t.budget_remaining ?? 0,
+        squad: (squads || []).filter((s) => s.team_id === t.id).map((s) => s.player_id),
+        bot: null,
+        focusCategory: null,
+      }))
+    );
+    setSourceLots(
+      (poolRes.data || []).map((entry) => ({
+        player_id: entry.player_id,
+        base_price: entry.base_price,
+        auction_category: entry.auction_category,
+        player_category: entry.player_category,
+        status: "upcoming",
+        sold_team_id: null,
+        sold_price: null,
+      }))
+    );
+    setCategories(configRes.data || []);
+    setBidIncrements(incrementsRes.data || []);
+    setBidTime(timerRes.data?.bid_time ?? 10);
+
+    const playerIds = (poolRes.data || []).map((entry) => entry.player_id);
+    if (playerIds.length > 0) {
+      const { data } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, avatar_url, player_type, player_category")
+        .in("user_id", playerIds);
+      setProfiles(Object.fromEntries((data || []).map((p) => [p.user_id, p])));
+    }
+
+    setLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const playersPerTeam = tournament?.players_per_team ?? 0;
+
+  // Mirrors get_slot_reserve_price
+  const reservePrice = useMemo(() => {
+    const active = categories.filter((c) => c.is_active).map((c) => c.base_price);
+    return active.length > 0 ? Math.min(...active) : tournament?.base_price ?? 0;
+  }, [categories, tournament?.base_price]);
+
+  const currentLot =
+    session && session.currentIndex !== null ? session.lots[session.currentIndex] : null;
+
+  // The lot's category ladder if it has one, else the tournament-wide ladder
+  const incrementSlabs = useMemo<BidIncrementSlab[]>(() => {
+    const configId = categories.find((c) => c.category === currentLot?.auction_category)?.id;
+    const categorySlabs = bidIncrements.filter((b) => !!configId && b.auction_config_id === configId);
+    return categorySlabs.length > 0
+      ? categorySlabs
+      : bidIncrements.filter((b) => b.auction_config_id === null);
+  }, [categories, bidIncrements, currentLot?.auction_category]);
+
+  const highestBid = session?.bids[session.bids.length - 1] ?? null;
+
+  const startSession = (teamId: string, setup: Record<string, PracticeBotSetup>) => {
+    setMyTeamId(teamId);
+    setSession({
+      teams: sourceTeams.map((team) => ({
+        ...team,
+        squad: [...team.squad],
+        bot: team.id === teamId ? null : setup[team.id]?.bot ?? "budget_conscious",
+        focusCategory: setup[team.id]?.focusCategory ?? null,
+      })),
+      lots: sourceLots.map((lot) => ({ ...lot })),
+      currentIndex: null,
+      bids: [],
+      ceilings: {},
+      deadline: null,
+    });
+  };
+
+  const endSession = () => {
+    setSession(null);
+    setMyTeamId(null);
+  };
+
+  const nominateNext = () => {
+    setSession((prev) => {
+      if (!prev || prev.currentIndex !== null) return prev;
+      const index = prev.lots.findIndex((lot) => lot.status === "upcoming");
+      if (index === -1) return prev;
+
+      const lot = prev.lots[index];
+      const ceilings = Object.fromEntries(
+        prev.teams.map((team) => [team.id, getBotCeiling(team, lot, playersPerTeam, reservePrice)])
+      );
+      return {
+        ...prev,
+        currentIndex: index,
+        bids: [],
+        ceilings,
+        deadline: Date.now() + bidTime * 1000,
+      };
+    });
+  };
+
+  const addBid = useCallback(
+    (bid: PracticeBid) => {
+      setSession((prev) =>
+        prev && prev.currentIndex !== null
+          ? { ...prev, bids: [...prev.bids, bid], deadline: Date.now() + bidTime * 1000 }
+          : prev
+      );
+    },
+    [bidTime]
+  );
+
+  const myTeam = session?.teams.find((t) => t.id === myTeamId) ?? null;
+  const myMaxBid = myTeam
+    ? getMaxAllowedBid(myTeam.budget, myTeam.squad.length, playersPerTeam, reservePrice)
+    : 0;
+  const nextBidAmount = currentLot
+    ? getNextBidAmount(currentLot.base_price, highestBid?.amount ?? null, incrementSlabs)
+    : 0;
+  const canBid =
+    !!myTeam &&
+    !!currentLot &&
+    highestBid?.team_id !== myTeam.id &&
+    nextBidAmount <= myMaxBid;
+
+  const placeBid = () => {
+    if (!canBid || !myTeam) return;
+    addBid({ team_id: myTeam.id, amount: nextBidAmount });
+  };
+
+  // Let a bot answer every new bid (or the opening of the lot)
+  useEffect(() => {
+    if (!session || !currentLot) return;
+    const bid = pickBotBid(session.teams, session.ceilings, currentLot, highestBid, incrementSlabs);
+    if (!bid) return;
+
+    const delay = BOT_MIN_DELAY_MS + Math.random() * (BOT_MAX_DELAY_MS - BOT_MIN_DELAY_MS);
+    const timeout = setTimeout(() => addBid(bid), delay);
+    return () => clearTimeout(timeout);
+  }, [session, currentLot, highestBid, incrementSlabs, addBid]);
+
+  const deadline = session?.deadline ?? null;
+
+  // Tick only while a lot is open
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const timeLeft = deadline !== null ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null;
+
+  // Hammer the lot once its clock runs out
+  useEffect(() => {
+    if (timeLeft !== 0) return;
+    setSession((prev) => {
+      if (!prev || prev.currentIndex === null) return prev;
+      const winner = prev.bids[prev.bids.length - 1];
+      const index = prev.currentIndex;
+
+      return {
+        ...prev,
+        teams: winner
+          ? prev.teams.map((team) =>
+              team.id === winner.team_id
+                ? {
+                    ...team,
+                    budget: team.budget - winner.amount,
+                    squad: [...team.squad, prev.lots[index].player_id],
+                  }
+                : team
+            )
+          : prev.teams,
+        lots: prev.lots.map((lot, i) =>
+          i === index
+            ? {
+                ...lot,
+                status: winner ? "sold" : "unsold",
+                sold_team_id: winner?.team_id ?? null,
+                sold_price: winner?.amount ?? null,
+              }
+            : lot
+        ),
+        currentIndex: null,
+        bids: [],
+        ceilings: {},
+        deadline: null,
+      };
+    });
+  }, [timeLeft]);
+
+  return {
+    loading,
+    tournament,
+    sourceTeams,
+    sourceLots,
+    categories,
+    profiles,
+    session,
+    myTeam,
+    myMaxBid,
+    currentLot,
+    highestBid,
+    nextBidAmount,
+    canBid,
+    timeLeft,
+    startSession,
+    endSession,
+    nominateNext,
+    placeBid,
+  };
+}
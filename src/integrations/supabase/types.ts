@@ -14,6 +14,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      auction_audit_log: {
+        Row: {
+          action: string
+          amount: number | null
+          created_at: string
+          id: string
+          performed_by: string | null
+          player_id: string | null
+          team_id: string | null
+          tournament_id: string
+        }
+        Insert: {
+          action: string
+          amount?: number | null
+          created_at?: string
+          id?: string
+          performed_by?: string | null
+          player_id?: string | null
+          team_id?: string | null
+          tournament_id: string
+        }
+        Update: {
+          action?: string
+          amount?: number | null
+          created_at?: string
+          id?: string
+          performed_by?: string | null
+          player_id?: string | null
+          team_id?: string | null
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_audit_log_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_audit_log_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       auction_bids: {
         Row: {
           bid_amount: number
@@ -100,11 +148,180 @@ export type Database = {
           },
         ]
       }
+      auction_pool: {
+        Row: {
+          auction_category: string | null
+          base_price: number
+          created_at: string
+          id: string
+          is_included: boolean
+          lot_order: number
+          player_category: Database["public"]["Enums"]["player_category"] | null
+          player_id: string
+          player_type: Database["public"]["Enums"]["player_type"] | null
+          previous_team_id: string | null
+          round: number
+          rtm_used: boolean
+          sold_at: string | null
+          sold_price: number | null
+          sold_round: number | null
+          sold_team_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          auction_category?: string | null
+          base_price?: number
+          created_at?: string
+          id?: string
+          is_included?: boolean
+          lot_order?: number
+          player_category?:
+            | Database["public"]["Enums"]["player_category"]
+            | null
+          player_id: string
+          player_type?: Database["public"]["Enums"]["player_type"] | null
+          previous_team_id?: string | null
+          round?: number
+          rtm_used?: boolean
+          sold_at?: string | null
+          sold_price?: number | null
+          sold_round?: number | null
+          sold_team_id?: string | null
+          status?: string
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          auction_category?: string | null
+          base_price?: number
+          created_at?: string
+          id?: string
+          is_included?: boolean
+          lot_order?: number
+          player_category?:
+            | Database["public"]["Enums"]["player_category"]
+            | null
+          player_id?: string
+          player_type?: Database["public"]["Enums"]["player_type"] | null
+          previous_team_id?: string | null
+          round?: number
+          rtm_used?: boolean
+          sold_at?: string | null
+          sold_price?: number | null
+          sold_round?: number | null
+          sold_team_id?: string | null
+          status?: string
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_pool_previous_team_id_fkey"
+            columns: ["previous_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_pool_sold_team_id_fkey"
+            columns: ["sold_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_pool_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auction_state: {
+        Row: {
+          bidding_opened_at: string | null
+          created_at: string
+          current_player_id: string | null
+          current_round: number
+          deadline_at: string | null
+          id: string
+          is_bidding_open: boolean
+          is_paused: boolean
+          lot_base_price: number
+          lot_opened_at: string | null
+          paused_remaining: number | null
+          rtm_deadline_at: string | null
+          rtm_team_id: string | null
+          sealed_bid_count: number
+          sealed_revealed_at: string | null
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          bidding_opened_at?: string | null
+          created_at?: string
+          current_player_id?: string | null
+          current_round?: number
+          deadline_at?: string | null
+          id?: string
+          is_bidding_open?: boolean
+          is_paused?: boolean
+          lot_base_price?: number
+          lot_opened_at?: string | null
+          paused_remaining?: number | null
+          rtm_deadline_at?: string | null
+          rtm_team_id?: string | null
+          sealed_bid_count?: number
+          sealed_revealed_at?: string | null
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          bidding_opened_at?: string | null
+          created_at?: string
+          current_player_id?: string | null
+          current_round?: number
+          deadline_at?: string | null
+          id?: string
+          is_bidding_open?: boolean
+          is_paused?: boolean
+          lot_base_price?: number
+          lot_opened_at?: string | null
+          paused_remaining?: number | null
+          rtm_deadline_at?: string | null
+          rtm_team_id?: string | null
+          sealed_bid_count?: number
+          sealed_revealed_at?: string | null
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auction_state_rtm_team_id_fkey"
+            columns: ["rtm_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auction_state_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: true
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       auction_timer: {
         Row: {
           bid_time: number
           created_at: string
           created_by: string | null
+          extension_seconds: number
+          extension_threshold: number
           id: string
           is_active: boolean | null
           tournament_id: string
@@ -114,6 +331,8 @@ export type Database = {
           bid_time?: number
           created_at?: string
           created_by?: string | null
+          extension_seconds?: number
+          extension_threshold?: number
           id?: string
           is_active?: boolean | null
           tournament_id: string
@@ -123,6 +342,8 @@ export type Database = {
           bid_time?: number
           created_at?: string
           created_by?: string | null
+          extension_seconds?: number
+          extension_threshold?: number
           id?: string
           is_active?: boolean | null
           tournament_id?: string
@@ -138,6 +359,188 @@ export type Database = {
           },
         ]
       }
+      auto_bids: {
+        Row: {
+          created_at: string
+          id: string
+          max_amount: number
+          player_id: string
+          team_id: string
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_amount: number
+          player_id: string
+          team_id: string
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_amount?: number
+          player_id?: string
+          team_id?: string
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_bids_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "auto_bids_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bid_increments: {
+        Row: {
+          auction_config_id: string | null
+          created_at: string
+          id: string
+          increment: number
+          tournament_id: string
+          up_to: number | null
+          updated_at: string
+        }
+        Insert: {
+          auction_config_id?: string | null
+          created_at?: string
+          id?: string
+          increment: number
+          tournament_id: string
+          up_to?: number | null
+          updated_at?: string
+        }
+        Update: {
+          auction_config_id?: string | null
+          created_at?: string
+          id?: string
+          increment?: number
+          tournament_id?: string
+          up_to?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_increments_auction_config_id_fkey"
+            columns: ["auction_config_id"]
+            isOneToOne: false
+            referencedRelation: "auction_config"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bid_increments_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      draft_picks: {
+        Row: {
+          id: string
+          pick_number: number
+          picked_at: string
+          picked_by: string | null
+          player_id: string
+          round: number
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          id?: string
+          pick_number: number
+          picked_at?: string
+          picked_by?: string | null
+          player_id: string
+          round: number
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          id?: string
+          pick_number?: number
+          picked_at?: string
+          picked_by?: string | null
+          player_id?: string
+          round?: number
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "draft_picks_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "draft_picks_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      draft_state: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          current_pick: number
+          id: string
+          pick_deadline_at: string | null
+          started_at: string
+          team_order: string[]
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          current_pick?: number
+          id?: string
+          pick_deadline_at?: string | null
+          started_at?: string
+          team_order: string[]
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          current_pick?: number
+          id?: string
+          pick_deadline_at?: string | null
+          started_at?: string
+          team_order?: string[]
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "draft_state_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: true
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       grounds: {
         Row: {
           address: string | null
@@ -244,13 +647,272 @@ export type Database = {
         }
         Relationships: []
       }
-      team_players: {
+      purse_ledger: {
         Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          created_by: string | null
           id: string
-          is_captain: boolean | null
-          player_id: string
-          sold_at: string
-          sold_price: number
+          kind: string
+          reason: string | null
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          reason?: string | null
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purse_ledger_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purse_ledger_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_slots: {
+        Row: {
+          created_at: string
+          id: string
+          price: number
+          slot_number: number
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price: number
+          slot_number: number
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price?: number
+          slot_number?: number
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_slots_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retentions: {
+        Row: {
+          created_at: string
+          id: string
+          player_id: string
+          price: number
+          slot_number: number
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          player_id: string
+          price: number
+          slot_number: number
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          player_id?: string
+          price?: number
+          slot_number?: number
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retentions_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "retentions_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sealed_bids: {
+        Row: {
+          bid_amount: number
+          id: string
+          lot_opened_at: string
+          player_id: string
+          revealed_at: string | null
+          submitted_at: string
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          bid_amount: number
+          id?: string
+          lot_opened_at: string
+          player_id: string
+          revealed_at?: string | null
+          submitted_at?: string
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          bid_amount?: number
+          id?: string
+          lot_opened_at?: string
+          player_id?: string
+          revealed_at?: string | null
+          submitted_at?: string
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sealed_bids_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sealed_bids_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shortlists: {
+        Row: {
+          created_at: string
+          id: string
+          player_id: string
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          player_id: string
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          player_id?: string
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shortlists_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shortlists_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      squad_rules: {
+        Row: {
+          created_at: string
+          id: string
+          max_count: number | null
+          min_count: number | null
+          rule_type: string
+          target: string
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_count?: number | null
+          min_count?: number | null
+          rule_type: string
+          target: string
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_count?: number | null
+          min_count?: number | null
+          rule_type?: string
+          target?: string
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "squad_rules_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_players: {
+        Row: {
+          id: string
+          is_captain: boolean | null
+          player_id: string
+          sold_at: string
+          sold_price: number
           team_id: string
         }
         Insert: {
@@ -433,10 +1095,15 @@ export type Database = {
           payment_qr_url: string | null
           pitch_type: string
           players_per_team: number
+          rtm_allowance: number
+          rtm_seconds: number
+          sealed_tie_break: string
           slogan: string | null
           start_date: string
           team_budget: number
           tournament_type: Database["public"]["Enums"]["tournament_type"]
+          trade_window_closes_at: string | null
+          trade_window_opens_at: string | null
           updated_at: string
           venue_address: string | null
           venue_city: string | null
@@ -471,10 +1138,15 @@ export type Database = {
           payment_qr_url?: string | null
           pitch_type: string
           players_per_team: number
+          rtm_allowance?: number
+          rtm_seconds?: number
+          sealed_tie_break?: string
           slogan?: string | null
           start_date: string
           team_budget: number
           tournament_type?: Database["public"]["Enums"]["tournament_type"]
+          trade_window_closes_at?: string | null
+          trade_window_opens_at?: string | null
           updated_at?: string
           venue_address?: string | null
           venue_city?: string | null
@@ -509,10 +1181,15 @@ export type Database = {
           payment_qr_url?: string | null
           pitch_type?: string
           players_per_team?: number
+          rtm_allowance?: number
+          rtm_seconds?: number
+          sealed_tie_break?: string
           slogan?: string | null
           start_date?: string
           team_budget?: number
           tournament_type?: Database["public"]["Enums"]["tournament_type"]
+          trade_window_closes_at?: string | null
+          trade_window_opens_at?: string | null
           updated_at?: string
           venue_address?: string | null
           venue_city?: string | null
@@ -530,6 +1207,70 @@ export type Database = {
           },
         ]
       }
+      trades: {
+        Row: {
+          cash_amount: number
+          created_at: string
+          id: string
+          message: string | null
+          offered_player_id: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+        Insert: {
+          cash_amount?: number
+          created_at?: string
+          id?: string
+          message?: string | null
+          offered_player_id?: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id?: string | null
+          status?: string
+          tournament_id: string
+          updated_at?: string
+        }
+        Update: {
+          cash_amount?: number
+          created_at?: string
+          id?: string
+          message?: string | null
+          offered_player_id?: string | null
+          proposing_team_id?: string
+          receiving_team_id?: string
+          requested_player_id?: string | null
+          status?: string
+          tournament_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trades_proposing_team_id_fkey"
+            columns: ["proposing_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trades_receiving_team_id_fkey"
+            columns: ["receiving_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trades_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -556,6 +1297,164 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_team_budget: {
+        Args: {
+          _delta: number
+          _kind: string
+          _reason?: string
+          _team_id: string
+        }
+        Returns: number
+      }
+      adjust_team_purse: {
+        Args: {
+          _amount: number
+          _reason: string
+          _team_id: string
+        }
+        Returns: number
+      }
+      build_auction_pool: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      cancel_trade: {
+        Args: {
+          _trade_id: string
+        }
+        Returns: {
+          cash_amount: number
+          created_at: string
+          id: string
+          message: string | null
+          offered_player_id: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      check_squad_rules: {
+        Args: {
+          _player_id: string
+          _team_id: string
+        }
+        Returns: string
+      }
+      create_balanced_teams: {
+        Args: {
+          _teams: Json
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      decide_trade: {
+        Args: {
+          _approve: boolean
+          _trade_id: string
+        }
+        Returns: {
+          cash_amount: number
+          created_at: string
+          id: string
+          message: string | null
+          offered_player_id: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      exercise_rtm: {
+        Args: {
+          _match: boolean
+          _tournament_id: string
+        }
+        Returns: {
+          id: string
+          is_captain: boolean | null
+          player_id: string
+          sold_at: string
+          sold_price: number
+          team_id: string
+        }
+      }
+      get_auction_readiness: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          blocking: boolean
+          check_key: string
+          message: string
+          passed: boolean
+        }[]
+      }
+      get_bid_increment: {
+        Args: {
+          _amount: number
+          _player_id: string
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      get_draft_team: {
+        Args: {
+          _pick: number
+          _team_order: string[]
+        }
+        Returns: string
+      }
+      get_rtm_team: {
+        Args: {
+          _amount: number
+          _player_id: string
+          _tournament_id: string
+          _winning_team_id: string
+        }
+        Returns: string
+      }
+      get_slot_reserve_price: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      get_team_max_bid: {
+        Args: {
+          _team_id: string
+        }
+        Returns: number
+      }
+      get_team_squad: {
+        Args: {
+          _team_id: string
+        }
+        Returns: {
+          auction_category: string
+          player_category: string
+          player_type: string
+        }[]
+      }
+      hammer_lot: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          id: string
+          is_captain: boolean | null
+          player_id: string
+          sold_at: string
+          sold_price: number
+          team_id: string
+        }
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -563,6 +1462,339 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_retention_open: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: boolean
+      }
+      is_sealed_bid_auction: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: boolean
+      }
+      is_tournament_organizer: {
+        Args: {
+          _tournament_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_trade_window_open: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: boolean
+      }
+      make_draft_pick: {
+        Args: {
+          _player_id: string
+          _tournament_id: string
+        }
+        Returns: {
+          id: string
+          pick_number: number
+          picked_at: string
+          picked_by: string | null
+          player_id: string
+          round: number
+          team_id: string
+          tournament_id: string
+        }
+      }
+      mark_lot_unsold: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          bidding_opened_at: string | null
+          created_at: string
+          current_player_id: string | null
+          current_round: number
+          deadline_at: string | null
+          id: string
+          is_bidding_open: boolean
+          is_paused: boolean
+          lot_base_price: number
+          lot_opened_at: string | null
+          paused_remaining: number | null
+          rtm_deadline_at: string | null
+          rtm_team_id: string | null
+          sealed_bid_count: number
+          sealed_revealed_at: string | null
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      nominate_player: {
+        Args: {
+          _base_price?: number
+          _player_id: string
+          _tournament_id: string
+        }
+        Returns: {
+          bidding_opened_at: string | null
+          created_at: string
+          current_player_id: string | null
+          current_round: number
+          deadline_at: string | null
+          id: string
+          is_bidding_open: boolean
+          is_paused: boolean
+          lot_base_price: number
+          lot_opened_at: string | null
+          paused_remaining: number | null
+          rtm_deadline_at: string | null
+          rtm_team_id: string | null
+          sealed_bid_count: number
+          sealed_revealed_at: string | null
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      place_bid: {
+        Args: {
+          _amount: number
+          _player_id: string
+          _team_id: string
+          _tournament_id: string
+        }
+        Returns: {
+          bid_amount: number
+          bid_at: string
+          id: string
+          player_id: string
+          team_id: string
+          tournament_id: string
+        }
+      }
+      propose_trade: {
+        Args: {
+          _cash_amount?: number
+          _message?: string
+          _offered_player_id?: string
+          _proposing_team_id: string
+          _receiving_team_id: string
+          _requested_player_id?: string
+        }
+        Returns: {
+          cash_amount: number
+          created_at: string
+          id: string
+          message: string | null
+          offered_player_id: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      release_retention: {
+        Args: {
+          _player_id: string
+          _team_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          player_id: string
+          price: number
+          slot_number: number
+          team_id: string
+          tournament_id: string
+        }
+      }
+      respond_to_trade: {
+        Args: {
+          _accept: boolean
+          _trade_id: string
+        }
+        Returns: {
+          cash_amount: number
+          created_at: string
+          id: string
+          message: string | null
+          offered_player_id: string | null
+          proposing_team_id: string
+          receiving_team_id: string
+          requested_player_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      retain_player: {
+        Args: {
+          _player_id: string
+          _team_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          player_id: string
+          price: number
+          slot_number: number
+          team_id: string
+          tournament_id: string
+        }
+      }
+      reveal_sealed_bids: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          bid_amount: number
+          bid_at: string
+          id: string
+          player_id: string
+          team_id: string
+          tournament_id: string
+        }
+      }
+      run_auto_bids: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      server_now: { Args: never; Returns: string }
+      set_auto_bid: {
+        Args: {
+          _max_amount: number
+          _player_id: string
+          _team_id: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          max_amount: number
+          player_id: string
+          team_id: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      set_bidding_open: {
+        Args: {
+          _open: boolean
+          _tournament_id: string
+        }
+        Returns: {
+          bidding_opened_at: string | null
+          created_at: string
+          current_player_id: string | null
+          current_round: number
+          deadline_at: string | null
+          id: string
+          is_bidding_open: boolean
+          is_paused: boolean
+          lot_base_price: number
+          lot_opened_at: string | null
+          paused_remaining: number | null
+          rtm_deadline_at: string | null
+          rtm_team_id: string | null
+          sealed_bid_count: number
+          sealed_revealed_at: string | null
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      set_bidding_paused: {
+        Args: {
+          _paused: boolean
+          _tournament_id: string
+        }
+        Returns: {
+          bidding_opened_at: string | null
+          created_at: string
+          current_player_id: string | null
+          current_round: number
+          deadline_at: string | null
+          id: string
+          is_bidding_open: boolean
+          is_paused: boolean
+          lot_base_price: number
+          lot_opened_at: string | null
+          paused_remaining: number | null
+          rtm_deadline_at: string | null
+          rtm_team_id: string | null
+          sealed_bid_count: number
+          sealed_revealed_at: string | null
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      start_accelerated_round: {
+        Args: {
+          _player_ids?: string[]
+          _reduction_pct?: number
+          _tournament_id: string
+        }
+        Returns: number
+      }
+      start_draft: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          current_pick: number
+          id: string
+          pick_deadline_at: string | null
+          started_at: string
+          team_order: string[]
+          tournament_id: string
+          updated_at: string
+        }
+      }
+      submit_sealed_bid: {
+        Args: {
+          _amount: number
+          _player_id: string
+          _team_id: string
+          _tournament_id: string
+        }
+        Returns: {
+          bid_amount: number
+          id: string
+          lot_opened_at: string
+          player_id: string
+          revealed_at: string | null
+          submitted_at: string
+          team_id: string
+          tournament_id: string
+        }
+      }
+      undo_last_sale: {
+        Args: {
+          _tournament_id: string
+        }
+        Returns: {
+          auction_category: string | null
+          base_price: number
+          created_at: string
+          id: string
+          is_included: boolean
+          lot_order: number
+          player_category: Database["public"]["Enums"]["player_category"] | null
+          player_id: string
+          player_type: Database["public"]["Enums"]["player_type"] | null
+          previous_team_id: string | null
+          round: number
+          rtm_used: boolean
+          sold_at: string | null
+          sold_price: number | null
+          sold_round: number | null
+          sold_team_id: string | null
+          status: string
+          tournament_id: string
+          updated_at: string
+        }
+      }
     }
     Enums: {
       app_role: "player" | "organizer" | "admin" | "umpire" | "ground_owner"
@@ -578,7 +1810,12 @@ export type Database = {
       gender: "male" | "female" | "other"
       player_category: "a_plus" | "a" | "b" | "c"
       player_type: "batsman" | "bowler" | "all_rounder" | "wicket_keeper"
-      tournament_type: "Normal" | "Auction" | "Auction with Voting"
+      tournament_type:
+        | "Normal"
+        | "Auction"
+        | "Auction with Voting"
+        | "Sealed Bid"
+        | "Draft"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -720,7 +1957,13 @@ export const Constants = {
       gender: ["male", "female", "other"],
       player_category: ["a_plus", "a", "b", "c"],
       player_type: ["batsman", "bowler", "all_rounder", "wicket_keeper"],
-      tournament_type: ["Normal", "Auction", "Auction with Voting"],
+      tournament_type: [
+        "Normal",
+        "Auction",
+        "Auction with Voting",
+        "Sealed Bid",
+        "Draft",
+      ],
     },
   },
 } as const
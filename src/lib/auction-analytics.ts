@@ -0,0 +1,138 @@
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { getPlayerCategoryLabel, getPlayerTypeLabel } from "@/lib/auction";
+
+type PlayerCategory = Database["public"]["Enums"]["player_category"];
+type PlayerType = Database["public"]["Enums"]["player_type"];
+
+// A player bought at auction: a team_players row with its pool entry
+export interface AuctionSale {
+  player_id: string;
+  team_id: string;
+  price: number;
+  base_price: number;
+  sold_at: string;
+  player_type: PlayerType | null;
+  player_category: PlayerCategory | null;
+}
+
+export interface PriceStat {
+  key: string;
+  label: string;
+  count: number;
+  average: number;
+  max: number;
+}
+
+export interface ContestedLot {
+  player_id: string;
+  bids: number;
+  teams: number;
+}
+
+// How many rows each top-N list on the analytics page shows
+export const ANALYTICS_LIST_SIZE = 5;
+
+/**
+ * Join the squads with the pool. Players without a sold pool entry
+ * (retentions, hand-made teams) never went under the hammer and are left out.
+ */
+export const getAuctionSales = (
+  squads: Pick<Tables<"team_players">, "player_id" | "team_id" | "sold_price" | "sold_at">[],
+  pool: Tables<"auction_pool">[]
+): AuctionSale[] => {
+  const poolByPlayer = Object.fromEntries(pool.map((entry) => [entry.player_id, entry]));
+  return squads
+    .filter((s) => poolByPlayer[s.player_id]?.status === "sold")
+    .map((s) => {
+      const entry = poolByPlayer[s.player_id];
+      return {
+        player_id: s.player_id,
+        team_id: s.team_id,
+        price: s.sold_price,
+        base_price: entry.base_price,
+        sold_at: s.sold_at,
+        player_type: entry.player_type,
+        player_category: entry.player_category,
+      };
+    })
+    .sort((a, b) => Date.parse(a.sold_at) - Date.parse(b.sold_at));
+};
+
+export const getPriceStats = (
+  sales: AuctionSale[],
+  groupBy: "player_type" | "player_category"
+): PriceStat[] => {
+  const groups = new Map<string, number[]>();
+  sales.forEach((sale) => {
+    const key = sale[groupBy];
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), sale.price]);
+  });
+  return [...groups.entries()].map(([key, prices]) => ({
+    key,
+    label:
+      groupBy === "player_type"
+        ? getPlayerTypeLabel(key as PlayerType)
+        : getPlayerCategoryLabel(key as PlayerCategory),
+    count: prices.length,
+    average: Math.round(prices.reduce((sum, p) => sum + p, 0) / prices.length),
+    max: Math.max(...prices),
+  }));
+};
+
+/**
+ * Cumulative spend of every team after each sale, one row per sale in the
+ * order they happened, keyed by team id so each team can be its own line.
+ */
+export const getSpendCurve = (sales: AuctionSale[], teamIds: string[]) => {
+  const spent: Record<string, number> = Object.fromEntries(teamIds.map((id) => [id, 0]));
+  const rows: Record<string, number>[] = [{ sale: 0, ...spent }];
+  sales.forEach((sale, index) => {
+    spent[sale.team_id] = (spent[sale.team_id] ?? 0) + sale.price;
+    rows.push({ sale: index + 1, ...spent });
+  });
+  return rows;
+};
+
+// Percentage paid over the base price
+export const getPremiumPercent = (sale: Pick<AuctionSale, "price" | "base_price">) =>
+  sale.base_price > 0 ? Math.round(((sale.price - sale.base_price) / sale.base_price) * 100) : 0;
+
+export const getTotalPremiumPercent = (sales: AuctionSale[]) =>
+  getPremiumPercent({
+    price: sales.reduce((sum, s) => sum + s.price, 0),
+    base_price: sales.reduce((sum, s) => sum + s.base_price, 0),
+  });
+
+export const getMostContestedLots = (bids: Pick<Tables<"auction_bids">, "player_id" | "team_id">[]) => {
+  const lots = new Map<string, { bids: number; teams: Set<string> }>();
+  bids.forEach((bid) => {
+    const lot = lots.get(bid.player_id) || { bids: 0, teams: new Set<string>() };
+    lot.bids += 1;
+    lot.teams.add(bid.team_id);
+    lots.set(bid.player_id, lot);
+  });
+  return [...lots.entries()]
+    .map(([player_id, lot]): ContestedLot => ({ player_id, bids: lot.bids, teams: lot.teams.size }))
+    .sort((a, b) => b.bids - a.bids)
+    .slice(0, ANALYTICS_LIST_SIZE);
+};
+
+/**
+ * Bargains are the players bought furthest below the average price of
+ * their own category, so a cheap grade-C player doesn't count as a steal.
+ */
+export const getBargainBuys = (sales: AuctionSale[]) => {
+  const averages = Object.fromEntries(
+    getPriceStats(sales, "player_category").map((stat) => [stat.key, stat.average])
+  );
+  return sales
+    .filter((sale) => sale.player_category && averages[sale.player_category] > sale.price)
+    .map((sale) => ({
+      ...sale,
+      category_average: averages[sale.player_category as string],
+      saving: averages[sale.player_category as string] - sale.price,
+    }))
+    .sort((a, b) => b.saving / b.category_average - a.saving / a.category_average)
+    .slice(0, ANALYTICS_LIST_SIZE);
+};
@@ -0,0 +1,37 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type AuctionBid = Tables<"auction_bids">;
+
+// Longest pause replayed between two bids, so idle gaps don't stall playback
+export const MAX_REPLAY_GAP_MS = 4000;
+
+export interface ReplayLot {
+  player_id: string;
+  bids: AuctionBid[];
+  // Position of the lot's first bid in the whole timeline
+  startIndex: number;
+}
+
+/**
+ * Split the tournament's bids, oldest first, into lots: a new lot starts
+ * whenever the bid is for a different player than the one before it, so a
+ * player brought back in a later round gets a lot of its own.
+ */
+export const groupBidsIntoLots = (bids: AuctionBid[]) => {
+  const lots: ReplayLot[] = [];
+  bids.forEach((bid, index) => {
+    const lot = lots[lots.length - 1];
+    if (lot && lot.player_id === bid.player_id) {
+      lot.bids.push(bid);
+    } else {
+      lots.push({ player_id: bid.player_id, bids: [bid], startIndex: index });
+    }
+  });
+  return lots;
+};
+
+export const getBidGapMs = (previous: AuctionBid | undefined, bid: AuctionBid) =>
+  previous ? Date.parse(bid.bid_at) - Date.parse(previous.bid_at) : 0;
+
+export const formatBidGap = (ms: number) =>
+  ms < 60000 ? `+${(ms / 1000).toFixed(1)}s` : `+${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
@@ -0,0 +1,77 @@
+import type { Database } from "@/integrations/supabase/types";
+import { getPlayerCategoryLabel, getPlayerTypeLabel } from "@/lib/auction";
+
+type PlayerCategory = Database["public"]["Enums"]["player_category"];
+type PlayerType = Database["public"]["Enums"]["player_type"];
+
+export interface ResultPlayer {
+  player_id: string;
+  name: string;
+  player_type: PlayerType | null;
+  player_category: PlayerCategory | null;
+  auction_category: string | null;
+  price: number;
+  retained: boolean;
+  rtm: boolean;
+}
+
+export interface TeamResult {
+  id: string;
+  name: string;
+  players: ResultPlayer[];
+  spent: number;
+  purse_left: number;
+}
+
+// Auction category if the organizer set one, else the player's grade
+export const getResultCategoryLabel = (player: Pick<ResultPlayer, "auction_category" | "player_category">) =>
+  player.auction_category ||
+  (player.player_category ? getPlayerCategoryLabel(player.player_category) : "");
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (cells: (string | number)[]) => cells.map(escapeCsvCell).join(",");
+
+/**
+ * One CSV with three sections: every squad player, a per-team summary and
+ * the unsold players. Prices are plain numbers so spreadsheets can sum them.
+ */
+export const getResultsCsv = (teams: TeamResult[], unsold: ResultPlayer[]) => {
+  const rows = [
+    toCsvRow(["Team", "Player", "Role", "Category", "Price", "Retained", "RTM"]),
+    ...teams.flatMap((team) =>
+      team.players.map((p) =>
+        toCsvRow([
+          team.name,
+          p.name,
+          getPlayerTypeLabel(p.player_type),
+          getResultCategoryLabel(p),
+          p.price,
+          p.retained ? "Yes" : "",
+          p.rtm ? "Yes" : "",
+        ])
+      )
+    ),
+    "",
+    toCsvRow(["Team", "Players", "Total Spent", "Purse Left"]),
+    ...teams.map((team) => toCsvRow([team.name, team.players.length, team.spent, team.purse_left])),
+    "",
+    toCsvRow(["Unsold Player", "Role", "Category", "Base Price"]),
+    ...unsold.map((p) =>
+      toCsvRow([p.name, getPlayerTypeLabel(p.player_type), getResultCategoryLabel(p), p.price])
+    ),
+  ];
+  return rows.join("\n");
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
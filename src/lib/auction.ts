@@ -0,0 +1,272 @@
+// Error codes raised by the auction RPCs (see supabase/migrations)
+export type BidErrorCode =
+  | "AUCTION_NOT_LIVE"
+  | "LOT_NOT_OPEN"
+  | "BIDDING_PAUSED"
+  | "NOT_TEAM_OWNER"
+  | "ALREADY_HIGHEST_BIDDER"
+  | "BID_TOO_LOW"
+  | "INSUFFICIENT_PURSE"
+  | "SQUAD_FULL"
+  | "EXCEEDS_MAX_BID"
+  | "SQUAD_RULE_VIOLATION"
+  | "BID_WINDOW_CLOSED"
+  | "NO_RTM_PENDING"
+  | "RTM_EXPIRED"
+  | "SEALED_BIDS_ONLY"
+  | "NOT_SEALED_BID"
+  | "SEALED_BID_SUBMITTED";
+
+export type ConsoleErrorCode =
+  | "NOT_ORGANIZER"
+  | "LOT_IN_PROGRESS"
+  | "PLAYER_ALREADY_SOLD"
+  | "PLAYER_NOT_IN_POOL"
+  | "NO_CURRENT_LOT"
+  | "NO_BIDS"
+  | "NO_UNSOLD_PLAYERS"
+  | "INVALID_REDUCTION"
+  | "NO_SALE_TO_UNDO"
+  | "PLAYER_TRADED"
+  | "RTM_PENDING"
+  | "BIDS_ALREADY_REVEALED"
+  | "AUCTION_NOT_READY";
+
+export type RetentionErrorCode =
+  | "RETENTION_CLOSED"
+  | "RETENTION_LIMIT_REACHED"
+  | "PLAYER_NOT_APPROVED"
+  | "PLAYER_ALREADY_ON_TEAM"
+  | "NOT_RETAINED";
+
+export type DraftErrorCode =
+  | "NOT_DRAFT"
+  | "DRAFT_ALREADY_STARTED"
+  | "CAPTAINS_MISSING"
+  | "DRAFT_NOT_STARTED"
+  | "DRAFT_COMPLETE"
+  | "NOT_ON_THE_CLOCK"
+  | "PICK_WINDOW_CLOSED";
+
+export type TeamSetupErrorCode =
+  | "NOT_NORMAL_TOURNAMENT"
+  | "TEAMS_ALREADY_EXIST"
+  | "WRONG_TEAM_COUNT"
+  | "TEAM_NAME_REQUIRED";
+
+export type TradeErrorCode =
+  | "TRADE_WINDOW_CLOSED"
+  | "INVALID_TRADE"
+  | "PLAYER_NOT_ON_TEAM"
+  | "TRADE_NOT_PENDING";
+
+export type PurseErrorCode = "INVALID_PURSE_ADJUSTMENT";
+
+export type AuctionErrorCode =
+  | BidErrorCode
+  | ConsoleErrorCode
+  | RetentionErrorCode
+  | DraftErrorCode
+  | TeamSetupErrorCode
+  | TradeErrorCode
+  | PurseErrorCode;
+
+const auctionErrorTitles: Record<AuctionErrorCode, string> = {
+  AUCTION_NOT_LIVE: "Auction Not Live",
+  LOT_NOT_OPEN: "Bidding Closed",
+  BIDDING_PAUSED: "Bidding Paused",
+  NOT_TEAM_OWNER: "Not Your Team",
+  ALREADY_HIGHEST_BIDDER: "Already Highest Bidder",
+  BID_TOO_LOW: "Bid Too Low",
+  INSUFFICIENT_PURSE: "Insufficient Purse",
+  SQUAD_FULL: "Squad Full",
+  EXCEEDS_MAX_BID: "Over Max Bid",
+  SQUAD_RULE_VIOLATION: "Squad Rule",
+  BID_WINDOW_CLOSED: "Too Late",
+  NO_RTM_PENDING: "No Match Pending",
+  RTM_EXPIRED: "Too Late To Match",
+  SEALED_BIDS_ONLY: "Sealed Bids Only",
+  NOT_SEALED_BID: "Open Auction",
+  SEALED_BID_SUBMITTED: "Bid Already Sealed",
+  NOT_ORGANIZER: "Organizer Only",
+  LOT_IN_PROGRESS: "Lot In Progress",
+  PLAYER_ALREADY_SOLD: "Already Sold",
+  PLAYER_NOT_IN_POOL: "Not In Pool",
+  NO_CURRENT_LOT: "No Player Nominated",
+  NO_BIDS: "No Bids",
+  NO_UNSOLD_PLAYERS: "No Unsold Players",
+  INVALID_REDUCTION: "Invalid Reduction",
+  NO_SALE_TO_UNDO: "Nothing To Undo",
+  PLAYER_TRADED: "Player Traded",
+  RTM_PENDING: "Right to Match Pending",
+  BIDS_ALREADY_REVEALED: "Already Revealed",
+  AUCTION_NOT_READY: "Not Ready To Go Live",
+  RETENTION_CLOSED: "Retentions Closed",
+  RETENTION_LIMIT_REACHED: "No Slots Left",
+  PLAYER_NOT_APPROVED: "Not Approved",
+  PLAYER_ALREADY_ON_TEAM: "Already On A Team",
+  NOT_RETAINED: "Not Retained",
+  NOT_DRAFT: "Not A Draft",
+  DRAFT_ALREADY_STARTED: "Draft Already Started",
+  CAPTAINS_MISSING: "Captains Missing",
+  DRAFT_NOT_STARTED: "Draft Not Started",
+  DRAFT_COMPLETE: "Draft Complete",
+  NOT_ON_THE_CLOCK: "Not Your Pick",
+  PICK_WINDOW_CLOSED: "Too Late",
+  NOT_NORMAL_TOURNAMENT: "Not A Normal Tournament",
+  TEAMS_ALREADY_EXIST: "Teams Already Exist",
+  WRONG_TEAM_COUNT: "Wrong Number Of Teams",
+  TEAM_NAME_REQUIRED: "Team Name Required",
+  TRADE_WINDOW_CLOSED: "Trade Window Closed",
+  INVALID_TRADE: "Invalid Trade",
+  PLAYER_NOT_ON_TEAM: "Player Not On Team",
+  TRADE_NOT_PENDING: "Trade Closed",
+  INVALID_PURSE_ADJUSTMENT: "Invalid Adjustment",
+};
+
+export const isAuctionErrorCode = (code: string): code is AuctionErrorCode => {
+  return Object.prototype.hasOwnProperty.call(auctionErrorTitles, code);
+};
+
+// Turn a Supabase RPC error into a toast title/description pair
+export const getAuctionErrorToast = (
+  error: { message: string; hint?: string | null },
+  fallback = "Something went wrong."
+) => {
+  if (isAuctionErrorCode(error.message)) {
+    return {
+      title: auctionErrorTitles[error.message],
+      description: error.hint || fallback,
+    };
+  }
+  return {
+    title: "Error",
+    description: error.message || fallback,
+  };
+};
+
+export const getBidErrorToast = (error: { message: string; hint?: string | null }) => {
+  return getAuctionErrorToast(error, "Failed to place bid.");
+};
+
+type PlayerType = "batsman" | "bowler" | "all_rounder" | "wicket_keeper";
+type PlayerCategory = "a_plus" | "a" | "b" | "c";
+
+// Values of auction_pool.status
+export type LotStatus = "upcoming" | "bidding" | "sold" | "unsold";
+
+// Step used when no increment ladder is configured
+export const DEFAULT_BID_INCREMENT = 1000;
+
+// One row of a bid_increments ladder; applies while the bid is below up_to
+export interface BidIncrementSlab {
+  up_to: number | null;
+  increment: number;
+}
+
+// Mirrors get_bid_increment in the database
+export const getBidIncrement = (amount: number, slabs: BidIncrementSlab[]) => {
+  const ladder = [...slabs].sort(
+    (a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity)
+  );
+  const slab =
+    ladder.find((s) => s.up_to === null || amount < s.up_to) ?? ladder[ladder.length - 1];
+  return slab?.increment ?? DEFAULT_BID_INCREMENT;
+};
+
+export const getNextBidAmount = (
+  basePrice: number,
+  highestBid: number | null,
+  slabs: BidIncrementSlab[] = []
+) => {
+  return highestBid === null ? basePrice : highestBid + getBidIncrement(highestBid, slabs);
+};
+
+// Mirrors get_draft_team: odd rounds follow the order, even rounds reverse it
+export const getSnakeDraftTeam = (teamOrder: string[], pick: number) => {
+  const teamCount = teamOrder.length;
+  if (teamCount === 0) return undefined;
+  const round = Math.floor((pick - 1) / teamCount);
+  const index = (pick - 1) % teamCount;
+  return teamOrder[round % 2 === 0 ? index : teamCount - 1 - index];
+};
+
+// Mirrors get_team_max_bid: keep reservePrice aside for every other empty slot
+export const getMaxAllowedBid = (
+  budgetRemaining: number,
+  squadSize: number,
+  playersPerTeam: number,
+  reservePrice: number
+) => {
+  const emptySlots = playersPerTeam - squadSize;
+  if (emptySlots <= 0) return 0;
+  return Math.max(budgetRemaining - (emptySlots - 1) * reservePrice, 0);
+};
+
+export const getPlayerTypeLabel = (type: PlayerType | null) => {
+  const labels: Record<PlayerType, string> = {
+    batsman: "Batsman",
+    bowler: "Bowler",
+    all_rounder: "All-Rounder",
+    wicket_keeper: "Wicket Keeper",
+  };
+  return type ? labels[type] : "Player";
+};
+
+export const getPlayerCategoryLabel = (category: PlayerCategory) => {
+  return category.replace("_plus", "+").toUpperCase();
+};
+
+// Names a squad_rules target, e.g. "Bowler" or "A+ grade"
+export const getSquadRuleTargetLabel = (ruleType: string, target: string) => {
+  return ruleType === "player_type"
+    ? getPlayerTypeLabel(target as PlayerType)
+    : `${getPlayerCategoryLabel(target as PlayerCategory)} grade`;
+};
+
+export const getCategoryBadgeColor = (category: PlayerCategory) => {
+  const colors: Record<PlayerCategory, string> = {
+    a_plus: "bg-accent text-accent-foreground",
+    a: "bg-primary text-primary-foreground",
+    b: "bg-secondary text-secondary-foreground",
+    c: "bg-muted text-muted-foreground",
+  };
+  return colors[category];
+};
+
+export const getLotStatusLabel = (status: string) => {
+  const labels: Record<LotStatus, string> = {
+    upcoming: "Upcoming",
+    bidding: "Bidding",
+    sold: "Sold",
+    unsold: "Unsold",
+  };
+  return labels[status as LotStatus] ?? status;
+};
+
+export const getLotStatusBadgeColor = (status: string) => {
+  const colors: Record<LotStatus, string> = {
+    upcoming: "bg-muted text-muted-foreground",
+    bidding: "bg-live text-live-foreground",
+    sold: "bg-success text-success-foreground",
+    unsold: "bg-destructive/10 text-destructive",
+  };
+  return colors[status as LotStatus] ?? colors.upcoming;
+};
+
+export const formatCurrency = (amount: number) => {
+  if (amount >= 100000) {
+    return `₹${(amount / 100000).toFixed(1)}L`;
+  }
+  return `₹${amount.toLocaleString("en-IN")}`;
+};
+
+export const getInitials = (name: string) => {
+  return name
+    .split(" ")
+    .filter(Boolean)
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 3)
+    .toUpperCase();
+};
@@ -0,0 +1,114 @@
+import { getMaxAllowedBid, getNextBidAmount, type BidIncrementSlab } from "@/lib/auction";
+import type { Database } from "@/integrations/supabase/types";
+
+type PlayerCategory = Database["public"]["Enums"]["player_category"];
+
+export type BotStrategy = "aggressive" | "budget_conscious" | "category_focused";
+
+export const botStrategyLabels: Record<BotStrategy, string> = {
+  aggressive: "Aggressive",
+  budget_conscious: "Budget-Conscious",
+  category_focused: "Category-Focused",
+};
+
+// A team in a practice session; bot is null for the team the user plays
+export interface PracticeTeam {
+  id: string;
+  name: string;
+  budget: number;
+  squad: string[];
+  bot: BotStrategy | null;
+  focusCategory: string | null;
+}
+
+// A lot in a practice session, cloned from auction_pool
+export interface PracticeLot {
+  player_id: string;
+  base_price: number;
+  auction_category: string | null;
+  player_category: PlayerCategory | null;
+  status: "upcoming" | "sold" | "unsold";
+  sold_team_id: string | null;
+  sold_price: number | null;
+}
+
+export interface PracticeBid {
+  team_id: string;
+  amount: number;
+}
+
+// How many times the base price a bot will go to for each grade
+const gradeMultiplier: Record<PlayerCategory, number> = {
+  a_plus: 5,
+  a: 3.5,
+  b: 2,
+  c: 1.3,
+};
+
+const getLotGrade = (lot: PracticeLot) =>
+  lot.player_category ? gradeMultiplier[lot.player_category] : 1.5;
+
+/**
+ * The most a bot will pay for a lot. Drawn once per lot with some noise so
+ * bots don't all drop out at the same price, and never above what the squad
+ * guard allows.
+ */
+export const getBotCeiling = (
+  team: PracticeTeam,
+  lot: PracticeLot,
+  playersPerTeam: number,
+  reservePrice: number
+) => {
+  const maxBid = getMaxAllowedBid(team.budget, team.squad.length, playersPerTeam, reservePrice);
+  const emptySlots = playersPerTeam - team.squad.length;
+  if (!team.bot || emptySlots <= 0) return 0;
+
+  const noise = 0.8 + Math.random() * 0.4;
+  const fairShare = team.budget / emptySlots;
+  let ceiling: number;
+
+  switch (team.bot) {
+    case "aggressive":
+      ceiling = lot.base_price * getLotGrade(lot) * 1.5 * noise;
+      break;
+    case "budget_conscious":
+      ceiling = Math.min(lot.base_price * getLotGrade(lot), fairShare * 1.1) * noise;
+      break;
+    case "category_focused": {
+      const inFocus =
+        !!team.focusCategory &&
+        (lot.auction_category === team.focusCategory ||
+          lot.player_category === team.focusCategory);
+      ceiling = inFocus
+        ? lot.base_price * getLotGrade(lot) * 2 * noise
+        : Math.min(lot.base_price, fairShare * 0.5);
+      break;
+    }
+  }
+
+  return Math.min(Math.floor(ceiling), maxBid);
+};
+
+/**
+ * Pick a bot to raise the current bid, or null when every bot is out. Bots
+ * never outbid themselves and stop at their ceiling for the lot.
+ */
+export const pickBotBid = (
+  teams: PracticeTeam[],
+  ceilings: Record<string, number>,
+  lot: PracticeLot,
+  highestBid: PracticeBid | null,
+  slabs: BidIncrementSlab[]
+): PracticeBid | null => {
+  const amount = getNextBidAmount(lot.base_price, highestBid?.amount ?? null, slabs);
+  const bidders = teams.filter(
+    (team) =>
+      !!team.bot &&
+      team.id !== highestBid?.team_id &&
+      (ceilings[team.id] ?? 0) >= amount
+  );
+  if (bidders.length === 0) return null;
+
+  const team = bidders[Math.floor(Math.random() * bidders.length)];
+  return { team_id: team.id, amount };
+};
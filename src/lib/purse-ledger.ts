@@ -0,0 +1,34 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type PurseLedgerEntry = Tables<"purse_ledger">;
+
+// Values of purse_ledger.kind
+export type PurseKind =
+  | "initial"
+  | "sale"
+  | "sale reversal"
+  | "retention"
+  | "retention release"
+  | "trade"
+  | "top-up"
+  | "penalty"
+  | "correction";
+
+const purseKindLabels: Record<PurseKind, string> = {
+  initial: "Starting Purse",
+  sale: "Auction Buy",
+  "sale reversal": "Sale Undone",
+  retention: "Retention",
+  "retention release": "Retention Released",
+  trade: "Trade",
+  "top-up": "Top-Up",
+  penalty: "Penalty",
+  correction: "Manual Correction",
+};
+
+export const getPurseKindLabel = (kind: string) =>
+  purseKindLabels[kind as PurseKind] ?? kind;
+
+// The entries, oldest first, should add up to the team's current purse
+export const isLedgerReconciled = (entries: Pick<PurseLedgerEntry, "amount">[], budgetRemaining: number) =>
+  Math.abs(entries.reduce((sum, e) => sum + e.amount, 0) - budgetRemaining) < 0.01;
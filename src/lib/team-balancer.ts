@@ -0,0 +1,130 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type PlayerCategory = Database["public"]["Enums"]["player_category"];
+type PlayerType = Database["public"]["Enums"]["player_type"];
+type BowlingStyle = Database["public"]["Enums"]["bowling_style"];
+
+export interface BalancePlayer {
+  user_id: string;
+  full_name: string | null;
+  player_category: PlayerCategory | null;
+  player_type: PlayerType | null;
+  bowling_style: BowlingStyle | null;
+}
+
+// Rough playing strength per grade; ungraded players sit between B and C
+const categoryStrength: Record<PlayerCategory, number> = {
+  a_plus: 4,
+  a: 3,
+  b: 2,
+  c: 1,
+};
+
+export const getPlayerStrength = (player: BalancePlayer) =>
+  player.player_category ? categoryStrength[player.player_category] : 1.5;
+
+type BowlingGroup = "pace" | "spin" | "none";
+
+const getBowlingGroup = (style: BowlingStyle | null): BowlingGroup => {
+  if (style === "right_arm_spin" || style === "left_arm_spin") return "spin";
+  if (!style || style === "none") return "none";
+  return "pace";
+};
+
+const sumStrength = (team: BalancePlayer[]) =>
+  team.reduce((sum, p) => sum + getPlayerStrength(p), 0);
+
+const countSpread = (teams: BalancePlayer[][], key: (p: BalancePlayer) => string) => {
+  const keys = new Set(teams.flat().map(key));
+  let spread = 0;
+  keys.forEach((k) => {
+    const counts = teams.map((team) => team.filter((p) => key(p) === k).length);
+    spread += Math.max(...counts) - Math.min(...counts);
+  });
+  return spread;
+};
+
+const getImbalance = (teams: BalancePlayer[][]) => {
+  if (teams.length < 2) return 0;
+  const strengths = teams.map(sumStrength);
+  const average = strengths.reduce((a, b) => a + b, 0) / strengths.length || 1;
+  const strengthSpread = (Math.max(...strengths) - Math.min(...strengths)) / average;
+  return (
+    strengthSpread * 4 +
+    countSpread(teams, (p) => p.player_type ?? "unknown") * 0.25 +
+    countSpread(teams, (p) => getBowlingGroup(p.bowling_style)) * 0.25
+  );
+};
+
+// 100 when every team has the same strength, role mix and bowling mix
+export const getBalanceScore = (teams: BalancePlayer[][]) =>
+  Math.round(100 / (1 + getImbalance(teams)));
+
+/**
+ * Split players into teamCount squads of at most playersPerTeam. Players are
+ * dealt in snake order by role then strength, then pairs are swapped while a
+ * swap lowers the imbalance.
+ */
+export const balanceTeams = (
+  players: BalancePlayer[],
+  teamCount: number,
+  playersPerTeam: number
+) => {
+  // Random tie-breaks so each run can propose a different split; players
+  // past the total capacity are left out at random
+  const tieBreak = new Map(players.map((p) => [p.user_id, Math.random()]));
+  const byTieBreak = [...players].sort(
+    (a, b) => (tieBreak.get(a.user_id) ?? 0) - (tieBreak.get(b.user_id) ?? 0)
+  );
+  const capacity = teamCount * playersPerTeam;
+  const unassigned = byTieBreak.slice(capacity);
+  const ordered = byTieBreak
+    .slice(0, capacity)
+    .sort(
+      (a, b) =>
+        (a.player_type ?? "").localeCompare(b.player_type ?? "") ||
+        getPlayerStrength(b) - getPlayerStrength(a)
+    );
+
+  const teams: BalancePlayer[][] = Array.from({ length: teamCount }, () => []);
+  let index = 0;
+  let direction = 1;
+
+  ordered.forEach((player) => {
+    while (teams[index].length >= playersPerTeam) {
+      index = (index + direction + teamCount) % teamCount;
+    }
+    teams[index].push(player);
+
+    const next = index + direction;
+    if (next < 0 || next >= teamCount) {
+      direction = -direction;
+    } else {
+      index = next;
+    }
+  });
+
+  let best = getImbalance(teams);
+  for (let pass = 0; pass < 20; pass++) {
+    let improved = false;
+    for (let a = 0; a < teamCount; a++) {
+      for (let b = a + 1; b < teamCount; b++) {
+        for (let i = 0; i < teams[a].length; i++) {
+          for (let j = 0; j < teams[b].length; j++) {
+            [teams[a][i], teams[b][j]] = [teams[b][j], teams[a][i]];
+            const imbalance = getImbalance(teams);
+            if (imbalance < best - 1e-9) {
+              best = imbalance;
+              improved = true;
+            } else {
+              [teams[a][i], teams[b][j]] = [teams[b][j], teams[a][i]];
+            }
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return { teams, unassigned };
+};
@@ -0,0 +1,70 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type Trade = Tables<"trades">;
+
+export type TradeTeam = Pick<Tables<"teams">, "id" | "name" | "owner_id" | "budget_remaining">;
+export type TradeSquadPlayer = Pick<Tables<"team_players">, "team_id" | "player_id" | "sold_price">;
+
+// Values of trades.status
+export type TradeStatus =
+  | "proposed"
+  | "accepted"
+  | "approved"
+  | "declined"
+  | "rejected"
+  | "cancelled";
+
+const tradeStatusLabels: Record<TradeStatus, string> = {
+  proposed: "Awaiting Owner",
+  accepted: "Awaiting Organizer",
+  approved: "Completed",
+  declined: "Declined",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+export const getTradeStatusLabel = (status: string) =>
+  tradeStatusLabels[status as TradeStatus] ?? status;
+
+export const getTradeStatusBadgeColor = (status: string) => {
+  const colors: Record<TradeStatus, string> = {
+    proposed: "bg-accent/10 text-accent",
+    accepted: "bg-primary/10 text-primary",
+    approved: "bg-success text-success-foreground",
+    declined: "bg-muted text-muted-foreground",
+    rejected: "bg-destructive/10 text-destructive",
+    cancelled: "bg-muted text-muted-foreground",
+  };
+  return colors[status as TradeStatus] ?? colors.cancelled;
+};
+
+export const isTradeOpen = (trade: Pick<Trade, "status">) =>
+  trade.status === "proposed" || trade.status === "accepted";
+
+/**
+ * Cash moves against the players: the proposer pays when they ask for a
+ * player, otherwise the receiving team pays for the one they get.
+ */
+export const getTradeCashPayerId = (
+  trade: Pick<Trade, "requested_player_id" | "proposing_team_id" | "receiving_team_id">
+) => (trade.requested_player_id ? trade.proposing_team_id : trade.receiving_team_id);
+
+type TradeWindow = Pick<
+  Tables<"tournaments">,
+  "trade_window_opens_at" | "trade_window_closes_at" | "is_auction_live"
+>;
+
+// Mirrors is_trade_window_open on the server
+export const isTradeWindowOpen = (tournament: TradeWindow, now = Date.now()) =>
+  !tournament.is_auction_live &&
+  !!tournament.trade_window_opens_at &&
+  !!tournament.trade_window_closes_at &&
+  Date.parse(tournament.trade_window_opens_at) <= now &&
+  Date.parse(tournament.trade_window_closes_at) > now;
+
+// ISO timestamp to the local "YYYY-MM-DDTHH:mm" a datetime-local input takes
+export const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
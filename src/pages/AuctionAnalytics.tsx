@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Loader2, ArrowLeft, BarChart3, Flame, TrendingUp, Tag } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/auction";
+import {
+  ANALYTICS_LIST_SIZE,
+  getAuctionSales,
+  getBargainBuys,
+  getMostContestedLots,
+  getPremiumPercent,
+  getPriceStats,
+  getSpendCurve,
+  getTotalPremiumPercent,
+  type PriceStat,
+} from "@/lib/auction-analytics";
+
+const priceChartConfig = {
+  average: { label: "Average", color: "hsl(var(--primary))" },
+  max: { label: "Highest", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+// Spread team lines evenly around the colour wheel
+const getTeamColor = (index: number, total: number) =>
+  `hsl(${Math.round((index * 360) / Math.max(total, 1))} 65% 45%)`;
+
+export default function AuctionAnalytics() {
+  const { id: tournamentId } = useParams();
+  const [tournament, setTournament] = useState<Tables<"tournaments"> | null>(null);
+  const [teams, setTeams] = useState<Pick<Tables<"teams">, "id" | "name">[]>([]);
+  const [pool, setPool] = useState<Tables<"auction_pool">[]>([]);
+  const [squads, setSquads] = useState<
+    Pick<Tables<"team_players">, "player_id" | "team_id" | "sold_price" | "sold_at">[]
+  >([]);
+  const [bids, setBids] = useState<Pick<Tables<"auction_bids">, "player_id" | "team_id">[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!tournamentId) return;
+
+    const [tournamentRes, teamsRes, poolRes, bidsRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase
+        .from("teams")
+        .select("id, name")
+        .eq("tournament_id", tournamentId)
+        .order("name", { ascending: true }),
+      supabase.from("auction_pool").select("*").eq("tournament_id", tournamentId),
+      supabase.from("auction_bids").select("player_id, team_id").eq("tournament_id", tournamentId),
+    ]);
+
+    const teamIds = (teamsRes.data || []).map((t) => t.id);
+    const { data: squadData } =
+      teamIds.length > 0
+        ? await supabase
+            .from("team_players")
+            .select("player_id, team_id, sold_price, sold_at")
+            .in("team_id", teamIds)
+        : { data: [] };
+
+    const playerIds = (poolRes.data || []).map((entry) => entry.player_id);
+    const { data: profiles } =
+      playerIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", playerIds)
+        : { data: [] };
+
+    setTournament(tournamentRes.data);
+    setTeams(teamsRes.data || []);
+    setPool(poolRes.data || []);
+    setBids(bidsRes.data || []);
+    setSquads(squadData || []);
+    setNames(Object.fromEntries((profiles || []).map((p) => [p.user_id, p.full_name])));
+    setLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  // Keep the charts current while the auction is running
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const channel = supabase
+      .channel(`auction-analytics-${tournamentId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "auction_bids", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchAnalytics()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "auction_pool", filter: `tournament_id=eq.${tournamentId}` },
+        () => fetchAnalytics()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tournamentId, fetchAnalytics]);
+
+  const sales = useMemo(() => getAuctionSales(squads, pool), [squads, pool]);
+
+  const teamChartConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        teams.map((team, i) => [team.id, { label: team.name, color: getTeamColor(i, teams.length) }])
+      ) satisfies ChartConfig,
+    [teams]
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const categoryStats = getPriceStats(sales, "player_category").sort((a, b) =>
+    a.label.localeCompare(b.label)
+  );
+  const typeStats = getPriceStats(sales, "player_type");
+  const spendCurve = getSpendCurve(sales, teams.map((t) => t.id));
+  const contested = getMostContestedLots(bids);
+  const bargains = getBargainBuys(sales);
+  const premiums = [...sales]
+    .sort((a, b) => getPremiumPercent(b) - getPremiumPercent(a))
+    .slice(0, ANALYTICS_LIST_SIZE);
+  const totalSpent = sales.reduce((sum, s) => sum + s.price, 0);
+
+  const renderPriceChart = (data: PriceStat[]) => (
+    <ChartContainer config={priceChartConfig} className="h-64 w-full aspect-auto">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} tickFormatter={(v: number) => formatCurrency(v)} width={64} />
+        <ChartTooltip
+          content={<ChartTooltipContent formatter={(value, name) => `${priceChartConfig[name as keyof typeof priceChartConfig]?.label}: ${formatCurrency(Number(value))}`} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="average" fill="var(--color-average)" radius={4} />
+        <Bar dataKey="max" fill="var(--color-max)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to={`/tournaments/${tournamentId}`}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="font-display text-3xl font-bold flex items-center gap-3">
+              {tournament.name}
+              {tournament.is_auction_live && (
+                <Badge className="bg-live text-live-foreground">LIVE</Badge>
+              )}
+            </h1>
+            <p className="text-muted-foreground mt-1">Auction Analytics</p>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: "Players Sold", value: sales.length.toString() },
+            { label: "Total Spent", value: formatCurrency(totalSpent) },
+            { label: "Bids Placed", value: bids.length.toString() },
+            { label: "Premium Over Base", value: `${getTotalPremiumPercent(sales)}%` },
+          ].map((stat) => (
+            <Card key={stat.label}>
+              <CardContent className="pt-6 text-center">
+                <p className="text-2xl font-bold font-display">{stat.value}</p>
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {sales.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <BarChart3 className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <p className="font-medium">No players sold yet</p>
+              <p className="text-sm text-muted-foreground">
+                Charts fill in as players are sold.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Prices */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Price by Category</CardTitle>
+                </CardHeader>
+                <CardContent>{renderPriceChart(categoryStats)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Price by Role</CardTitle>
+                </CardHeader>
+                <CardContent>{renderPriceChart(typeStats)}</CardContent>
+              </Card>
+            </div>
+
+            {/* Spend Curve */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Team Spend Over the Auction</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={teamChartConfig} className="h-80 w-full aspect-auto">
+                  <LineChart data={spendCurve}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="sale"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(v: number) => (v === 0 ? "Start" : `#${v}`)}
+                    />
+                    <YAxis tickLine={false} axisLine={false} tickFormatter={(v: number) => formatCurrency(v)} width={64} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => `After sale #${payload?.[0]?.payload?.sale ?? 0}`}
+                          formatter={(value, name) => `${teamChartConfig[name as string]?.label}: ${formatCurrency(Number(value))}`}
+                        />
+                      }
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {teams.map((team) => (
+                      <Line
+                        key={team.id}
+                        type="stepAfter"
+                        dataKey={team.id}
+                        stroke={`var(--color-${team.id})`}
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Lists */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Flame className="h-5 w-5 text-live" />
+                    Most Contested
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {contested.map((lot) => (
+                    <div key={lot.player_id} className="flex justify-between items-center p-2 rounded-lg bg-muted/50 text-sm">
+                      <span className="font-medium truncate">{names[lot.player_id] || "Player"}</span>
+                      <span className="text-muted-foreground shrink-0">
+                        {lot.bids} bids · {lot.teams} teams
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5 text-primary" />
+                    Biggest Premiums
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {premiums.map((sale) => (
+                    <div key={sale.player_id} className="flex justify-between items-center p-2 rounded-lg bg-muted/50 text-sm">
+                      <span className="min-w-0">
+                        <span className="font-medium truncate block">{names[sale.player_id] || "Player"}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatCurrency(sale.base_price)} → {formatCurrency(sale.price)}
+                        </span>
+                      </span>
+                      <Badge variant="secondary">+{getPremiumPercent(sale)}%</Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tag className="h-5 w-5 text-success" />
+                    Bargain Buys
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {bargains.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No bargains yet.</p>
+                  ) : (
+                    bargains.map((sale) => (
+                      <div key={sale.player_id} className="flex justify-between items-center p-2 rounded-lg bg-muted/50 text-sm">
+                        <span className="min-w-0">
+                          <span className="font-medium truncate block">{names[sale.player_id] || "Player"}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {formatCurrency(sale.price)} vs {formatCurrency(sale.category_average)} avg
+                          </span>
+                        </span>
+                        <Badge className="bg-success/10 text-success">
+                          -{formatCurrency(sale.saving)}
+                        </Badge>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
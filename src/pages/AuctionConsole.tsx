@@ -0,0 +1,364 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, ArrowLeft, Circle, Play, Square, Eye, Wallet, Undo2, MonitorPlay } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAuctionRoom } from "@/hooks/use-auction-room";
+import { ConsoleLotCard } from "@/components/auction/ConsoleLotCard";
+import { AuctionPoolManager } from "@/components/auction/AuctionPoolManager";
+import { AuctionReadinessModal } from "@/components/tournaments/AuctionReadinessModal";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+
+type ConsoleRpcError = { message: string; hint?: string | null } | null;
+
+export default function AuctionConsole() {
+  const { id: tournamentId } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const {
+    loading,
+    tournament,
+    teams,
+    teamPlayers,
+    state,
+    lotBids,
+    highestBid,
+    pool,
+    profiles,
+    timeLeft,
+    rtmTimeLeft,
+  } = useAuctionRoom(tournamentId);
+
+  const [busy, setBusy] = useState(false);
+  const [togglingLive, setTogglingLive] = useState(false);
+  const [readinessOpen, setReadinessOpen] = useState(false);
+
+  const isOrganizer = !!user && tournament?.organizer_id === user.id;
+
+  useEffect(() => {
+    if (loading || authLoading || !tournament) return;
+    if (!isOrganizer) {
+      toast({
+        title: "Access Denied",
+        description: "Only the organizer can run the auction.",
+        variant: "destructive",
+      });
+      navigate(`/tournaments/${tournamentId}`);
+    }
+  }, [loading, authLoading, tournament, isOrganizer, navigate, tournamentId]);
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map((t) => [t.id, t])),
+    [teams]
+  );
+
+  // Most recent sale, the one undo_last_sale reverses
+  const lastSale = useMemo(
+    () =>
+      pool
+        .filter((entry) => entry.status === "sold" && entry.sold_at)
+        .sort((a, b) => (b.sold_at ?? "").localeCompare(a.sold_at ?? ""))[0],
+    [pool]
+  );
+
+  const runAction = async (
+    action: () => PromiseLike<{ error: ConsoleRpcError }>,
+    successMessage?: string
+  ) => {
+    setBusy(true);
+    const { error } = await action();
+    setBusy(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+    } else if (successMessage) {
+      toast({ title: "Success", description: successMessage });
+    }
+  };
+
+  // hammer_lot returns no sale when it opens a Right-to-Match window instead
+  const handleSold = async () => {
+    if (!tournament) return;
+    setBusy(true);
+    const { data, error } = await supabase.rpc("hammer_lot", { _tournament_id: tournament.id });
+    setBusy(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+    } else if (data?.id) {
+      toast({
+        title: "Success",
+        description: `${profiles[data.player_id]?.full_name || "Player"} sold to ${teamsById[data.team_id]?.name || "the highest bidder"}.`,
+      });
+    } else {
+      toast({
+        title: "Right to Match",
+        description: "The player's previous team can now match the winning bid.",
+      });
+    }
+  };
+
+  const handleToggleLive = async () => {
+    if (!tournament) return;
+    setTogglingLive(true);
+    try {
+      const { error } = await supabase
+        .from("tournaments")
+        .update({ is_auction_live: !tournament.is_auction_live })
+        .eq("id", tournament.id);
+
+      if (error) throw error;
+
+      toast({
+        title: tournament.is_auction_live ? "Auction Stopped" : "Auction Started",
+        description: tournament.is_auction_live
+          ? "The auction is no longer live."
+          : "The auction is now live!",
+      });
+      setReadinessOpen(false);
+    } catch (error) {
+      toast({
+        ...getAuctionErrorToast(error as { message: string }, "Failed to toggle auction."),
+        variant: "destructive",
+      });
+    } finally {
+      setTogglingLive(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament || !isOrganizer) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const currentPlayer = state?.current_player_id ? profiles[state.current_player_id] : undefined;
+  const currentPlayerName = currentPlayer?.full_name || "Player";
+  const lastSaleName = lastSale ? profiles[lastSale.player_id]?.full_name || "Player" : "";
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/tournaments/${tournamentId}`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-muted-foreground">Auction Console</span>
+                {(state?.current_round ?? 1) > 1 && (
+                  <Badge variant="secondary">Round {state?.current_round}</Badge>
+                )}
+                {tournament.is_auction_live && (
+                  <Badge className="bg-live text-live-foreground animate-pulse-live">
+                    <Circle className="h-2 w-2 mr-1 fill-current" />
+                    Live
+                  </Badge>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={busy || !lastSale || !!state?.current_player_id}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo Last Sale
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Undo Last Sale</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {lastSale &&
+                      `${lastSaleName} will be removed from ${
+                        teamsById[lastSale.sold_team_id ?? ""]?.name || "their team"
+                      }, ${formatCurrency(lastSale.sold_price ?? 0)} will be refunded and the player goes back into the pool.`}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() =>
+                      runAction(
+                        () => supabase.rpc("undo_last_sale", { _tournament_id: tournament.id }),
+                        `${lastSaleName} returned to the pool.`
+                      )
+                    }
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Undo Sale
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <Button variant="outline" asChild>
+              <Link to={`/auctions/${tournament.id}`}>
+                <Eye className="h-4 w-4 mr-2" />
+                Auction Room
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={`/auctions/${tournament.id}/screen`} target="_blank" rel="noreferrer">
+                <MonitorPlay className="h-4 w-4 mr-2" />
+                Projector
+              </a>
+            </Button>
+            <Button
+              onClick={tournament.is_auction_live ? handleToggleLive : () => setReadinessOpen(true)}
+              disabled={togglingLive}
+              variant={tournament.is_auction_live ? "destructive" : "default"}
+            >
+              {togglingLive ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : tournament.is_auction_live ? (
+                <Square className="h-4 w-4 mr-2" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              {tournament.is_auction_live ? "Stop Auction" : "Start Auction"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <ConsoleLotCard
+              state={state}
+              player={currentPlayer}
+              highestBid={highestBid}
+              leadingTeamName={highestBid ? teamsById[highestBid.team_id]?.name : undefined}
+              bidCount={lotBids.length}
+              timeLeft={timeLeft}
+              rtmTeamName={state?.rtm_team_id ? teamsById[state.rtm_team_id]?.name : undefined}
+              rtmTimeLeft={rtmTimeLeft}
+              sealed={tournament.tournament_type === "Sealed Bid"}
+              busy={busy}
+              onOpenBidding={() =>
+                runAction(() =>
+                  supabase.rpc("set_bidding_open", { _tournament_id: tournament.id, _open: true })
+                )
+              }
+              onCloseBidding={() =>
+                runAction(() =>
+                  supabase.rpc("set_bidding_open", { _tournament_id: tournament.id, _open: false })
+                )
+              }
+              onPause={() =>
+                runAction(() =>
+                  supabase.rpc("set_bidding_paused", { _tournament_id: tournament.id, _paused: true })
+                )
+              }
+              onResume={() =>
+                runAction(() =>
+                  supabase.rpc("set_bidding_paused", { _tournament_id: tournament.id, _paused: false })
+                )
+              }
+              onReveal={() =>
+                runAction(
+                  () => supabase.rpc("reveal_sealed_bids", { _tournament_id: tournament.id }),
+                  `Sealed bids for ${currentPlayerName} revealed.`
+                )
+              }
+              onSold={handleSold}
+              onUnsold={() =>
+                runAction(
+                  () => supabase.rpc("mark_lot_unsold", { _tournament_id: tournament.id }),
+                  `${currentPlayerName} went unsold.`
+                )
+              }
+            />
+
+            <AuctionPoolManager
+              tournamentId={tournament.id}
+              pool={pool}
+              profiles={profiles}
+              teams={teams}
+              rtmEnabled={tournament.rtm_allowance > 0}
+              currentRound={state?.current_round ?? 1}
+              disabled={busy || !!state?.is_bidding_open || !!state?.rtm_team_id}
+              onNominate={(playerId) =>
+                runAction(() =>
+                  supabase.rpc("nominate_player", {
+                    _tournament_id: tournament.id,
+                    _player_id: playerId,
+                  })
+                )
+              }
+            />
+          </div>
+
+          {/* Teams */}
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5 text-primary" />
+                Teams
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {teams.map((team) => {
+                const squadSize = teamPlayers.filter((tp) => tp.team_id === team.id).length;
+                return (
+                  <div key={team.id} className="flex items-center justify-between p-3 rounded-lg border">
+                    <div>
+                      <p className="font-medium text-sm">{team.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {squadSize}/{tournament.players_per_team} players
+                      </p>
+                    </div>
+                    <span className="font-semibold text-sm">{formatCurrency(team.budget_remaining)}</span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AuctionReadinessModal
+        open={readinessOpen}
+        onOpenChange={setReadinessOpen}
+        tournamentId={tournament.id}
+        tournamentName={tournament.name}
+        onGoLive={handleToggleLive}
+        goingLive={togglingLive}
+      />
+    </Layout>
+  );
+}
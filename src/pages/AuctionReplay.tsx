@@ -0,0 +1,341 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Loader2,
+  ArrowLeft,
+  Play,
+  Pause,
+  SkipBack,
+  SkipForward,
+  History,
+  Gavel,
+  Trophy,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AuctionPlayerProfile } from "@/hooks/use-auction-room";
+import { formatCurrency, getInitials, getPlayerTypeLabel } from "@/lib/auction";
+import {
+  MAX_REPLAY_GAP_MS,
+  formatBidGap,
+  getBidGapMs,
+  groupBidsIntoLots,
+} from "@/lib/auction-replay";
+
+const SPEEDS = [1, 2, 4, 8];
+
+// Shortest step between bids at any speed, so fast playback stays readable
+const MIN_STEP_MS = 150;
+
+export default function AuctionReplay() {
+  const { id: tournamentId } = useParams();
+  const [tournament, setTournament] = useState<Tables<"tournaments"> | null>(null);
+  const [teams, setTeams] = useState<Tables<"teams">[]>([]);
+  const [pool, setPool] = useState<Tables<"auction_pool">[]>([]);
+  const [bids, setBids] = useState<Tables<"auction_bids">[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, AuctionPlayerProfile>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const fetchReplay = useCallback(async () => {
+    if (!tournamentId) return;
+    setLoading(true);
+
+    const [tournamentRes, teamsRes, poolRes, bidsRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase.from("teams").select("*").eq("tournament_id", tournamentId),
+      supabase.from("auction_pool").select("*").eq("tournament_id", tournamentId),
+      supabase
+        .from("auction_bids")
+        .select("*")
+        .eq("tournament_id", tournamentId)
+        .order("bid_at", { ascending: true })
+        // Proxy bids placed together share a bid_at; each one tops the last
+        .order("bid_amount", { ascending: true }),
+    ]);
+
+    const playerIds = [...new Set((bidsRes.data || []).map((b) => b.player_id))];
+    if (playerIds.length > 0) {
+      const { data } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, avatar_url, player_type, player_category")
+        .in("user_id", playerIds);
+      setProfiles(Object.fromEntries((data || []).map((p) => [p.user_id, p])));
+    }
+
+    setTournament(tournamentRes.data);
+    setTeams(teamsRes.data || []);
+    setPool(poolRes.data || []);
+    setBids(bidsRes.data || []);
+    setLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchReplay();
+  }, [fetchReplay]);
+
+  const lots = useMemo(() => groupBidsIntoLots(bids), [bids]);
+
+  // Step through the bids, keeping the real gaps between them (capped)
+  useEffect(() => {
+    if (!playing) return;
+    if (position >= bids.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const gap = Math.min(getBidGapMs(bids[position], bids[position + 1]), MAX_REPLAY_GAP_MS);
+    const timeout = setTimeout(
+      () => setPosition((p) => p + 1),
+      Math.max(gap / speed, MIN_STEP_MS)
+    );
+    return () => clearTimeout(timeout);
+  }, [playing, position, speed, bids]);
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map((t) => [t.id, t])),
+    [teams]
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const lotIndex = lots.reduce((found, lot, i) => (lot.startIndex <= position ? i : found), 0);
+  const lot = lots[lotIndex];
+  const shownBids = lot ? lot.bids.slice(0, position - lot.startIndex + 1) : [];
+  const lotFinished = !!lot && shownBids.length === lot.bids.length;
+  const winningBid = shownBids[shownBids.length - 1];
+  const entry = lot ? pool.find((p) => p.player_id === lot.player_id) : undefined;
+  const isLastLotForPlayer =
+    !!lot && !lots.slice(lotIndex + 1).some((l) => l.player_id === lot.player_id);
+  const sold = lotFinished && isLastLotForPlayer && entry?.status === "sold" && !!entry.sold_team_id;
+  const matched = sold && entry?.sold_team_id !== winningBid?.team_id;
+  const player = lot ? profiles[lot.player_id] : undefined;
+  const teamName = (id: string | null | undefined) => (id && teamsById[id]?.name) || "Team";
+
+  const jumpToLot = (index: number) => {
+    setPlaying(false);
+    setPosition(lots[index].startIndex + lots[index].bids.length - 1);
+  };
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to={`/tournaments/${tournamentId}`}>
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+            <p className="text-muted-foreground mt-1">Auction Replay</p>
+          </div>
+        </div>
+
+        {!lot ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <History className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <p className="font-medium">No bids to replay yet</p>
+              <p className="text-sm text-muted-foreground">
+                Bids appear here once the auction has started.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Lot */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Gavel className="h-5 w-5 text-primary" />
+                      Lot {lotIndex + 1} of {lots.length}
+                    </span>
+                    <span className="text-sm font-normal text-muted-foreground">
+                      {new Date(lot.bids[0].bid_at).toLocaleString()}
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="flex items-center gap-4">
+                    <Avatar className="h-16 w-16">
+                      <AvatarImage src={player?.avatar_url || undefined} />
+                      <AvatarFallback className="bg-primary/10 text-primary text-lg">
+                        {getInitials(player?.full_name || "Player")}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="text-xl font-display font-bold">{player?.full_name || "Player"}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {getPlayerTypeLabel(player?.player_type ?? null)}
+                        {entry && ` · Base ${formatCurrency(entry.base_price)}`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {shownBids.map((bid, i) => (
+                      <div
+                        key={bid.id}
+                        className={`flex items-center justify-between p-3 rounded-lg animate-in fade-in slide-in-from-top-2 duration-300 ${i === shownBids.length - 1 ? "bg-primary/10 border border-primary/20" : "bg-muted/50"}`}
+                      >
+                        <span className="font-medium">{teamName(bid.team_id)}</span>
+                        <span className="flex items-center gap-4">
+                          <span className="text-xs text-muted-foreground font-mono">
+                            {i === 0 ? "opening bid" : formatBidGap(getBidGapMs(shownBids[i - 1], bid))}
+                          </span>
+                          <span className="font-semibold">{formatCurrency(bid.bid_amount)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {lotFinished && (
+                    <div
+                      className={`p-4 rounded-lg flex items-center gap-3 font-medium animate-in zoom-in-95 duration-300 ${sold ? "bg-success/10 text-success" : "bg-muted text-muted-foreground"}`}
+                    >
+                      <Trophy className="h-5 w-5" />
+                      {sold
+                        ? matched
+                          ? `Matched by ${teamName(entry?.sold_team_id)} with Right to Match for ${formatCurrency(entry?.sold_price ?? 0)}`
+                          : `Sold to ${teamName(entry?.sold_team_id)} for ${formatCurrency(entry?.sold_price ?? winningBid.bid_amount)}`
+                        : isLastLotForPlayer
+                          ? "Not sold"
+                          : "Not sold in this round; brought back later"}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Controls */}
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <Slider
+                    value={[position]}
+                    max={Math.max(bids.length - 1, 0)}
+                    step={1}
+                    onValueChange={([value]) => setPosition(value)}
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => jumpToLot(Math.max(lotIndex - 1, 0))}
+                        aria-label="Previous lot"
+                      >
+                        <SkipBack className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        onClick={() => {
+                          if (position >= bids.length - 1) setPosition(0);
+                          setPlaying(!playing);
+                        }}
+                        aria-label={playing ? "Pause" : "Play"}
+                      >
+                        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => jumpToLot(Math.min(lotIndex + 1, lots.length - 1))}
+                        aria-label="Next lot"
+                      >
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      Bid {position + 1} of {bids.length}
+                    </span>
+                    <Select value={speed.toString()} onValueChange={(value) => setSpeed(Number(value))}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SPEEDS.map((s) => (
+                          <SelectItem key={s} value={s.toString()}>
+                            {s}×
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Lots */}
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-primary" />
+                  Lots
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 max-h-[36rem] overflow-y-auto">
+                {lots.map((l, i) => {
+                  const last = l.bids[l.bids.length - 1];
+                  return (
+                    <button
+                      key={l.startIndex}
+                      type="button"
+                      onClick={() => jumpToLot(i)}
+                      className={`w-full flex items-center justify-between gap-2 p-2 rounded-lg text-left text-sm transition-colors ${i === lotIndex ? "bg-primary/10 border border-primary/20" : "hover:bg-muted/50"}`}
+                    >
+                      <span className="min-w-0">
+                        <span className="font-medium truncate block">
+                          {i + 1}. {profiles[l.player_id]?.full_name || "Player"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {l.bids.length} bid{l.bids.length === 1 ? "" : "s"}
+                        </span>
+                      </span>
+                      <Badge variant="secondary">{formatCurrency(last.bid_amount)}</Badge>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
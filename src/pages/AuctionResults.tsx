@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, ArrowLeft, Download, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency, getPlayerTypeLabel } from "@/lib/auction";
+import {
+  downloadCsv,
+  getResultCategoryLabel,
+  getResultsCsv,
+  type ResultPlayer,
+  type TeamResult,
+} from "@/lib/auction-results";
+
+export default function AuctionResults() {
+  const { id: tournamentId } = useParams();
+  const [tournament, setTournament] = useState<Tables<"tournaments"> | null>(null);
+  const [teamResults, setTeamResults] = useState<TeamResult[]>([]);
+  const [unsold, setUnsold] = useState<ResultPlayer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchResults = useCallback(async () => {
+    if (!tournamentId) return;
+    setLoading(true);
+
+    const [tournamentRes, teamsRes, poolRes, retentionsRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase
+        .from("teams")
+        .select("id, name, budget_remaining")
+        .eq("tournament_id", tournamentId)
+        .order("name", { ascending: true }),
+      supabase.from("auction_pool").select("*").eq("tournament_id", tournamentId),
+      supabase.from("retentions").select("team_id, player_id").eq("tournament_id", tournamentId),
+    ]);
+
+    const teams = teamsRes.data || [];
+    const pool = poolRes.data || [];
+    const { data: squads } =
+      teams.length > 0
+        ? await supabase
+            .from("team_players")
+            .select("team_id, player_id, sold_price, sold_at")
+            .in("team_id", teams.map((t) => t.id))
+            .order("sold_at", { ascending: true })
+        : { data: [] };
+
+    const unsoldEntries = pool.filter((entry) => entry.is_included && entry.status === "unsold");
+    const playerIds = [
+      ...(squads || []).map((s) => s.player_id),
+      ...unsoldEntries.map((entry) => entry.player_id),
+    ];
+    const { data: profiles } =
+      playerIds.length > 0
+        ? await supabase
+            .from("profiles")
+            .select("user_id, full_name, player_type, player_category")
+            .in("user_id", playerIds)
+        : { data: [] };
+
+    const profileById = Object.fromEntries((profiles || []).map((p) => [p.user_id, p]));
+    const poolById = Object.fromEntries(pool.map((entry) => [entry.player_id, entry]));
+    const retained = new Set(
+      (retentionsRes.data || []).map((r) => `${r.team_id}:${r.player_id}`)
+    );
+
+    setTournament(tournamentRes.data);
+    setTeamResults(
+      teams.map((team) => {
+        const players = (squads || [])
+          .filter((s) => s.team_id === team.id)
+          .map((s) => {
+            const entry = poolById[s.player_id];
+            const profile = profileById[s.player_id];
+            return {
+              player_id: s.player_id,
+              name: profile?.full_name || "Player",
+              player_type: entry?.player_type ?? profile?.player_type ?? null,
+              player_category: entry?.player_category ?? profile?.player_category ?? null,
+              auction_category: entry?.auction_category ?? null,
+              price: s.sold_price,
+              retained: retained.has(`${team.id}:${s.player_id}`),
+              rtm: !!entry?.rtm_used && entry.sold_team_id === team.id,
+            };
+          });
+        return {
+          id: team.id,
+          name: team.name,
+          players,
+          spent: players.reduce((sum, p) => sum + p.price, 0),
+          purse_left: team.budget_remaining,
+        };
+      })
+    );
+    setUnsold(
+      unsoldEntries.map((entry) => {
+        const profile = profileById[entry.player_id];
+        return {
+          player_id: entry.player_id,
+          name: profile?.full_name || "Player",
+          player_type: entry.player_type ?? profile?.player_type ?? null,
+          player_category: entry.player_category ?? profile?.player_category ?? null,
+          auction_category: entry.auction_category,
+          price: entry.base_price,
+          retained: false,
+          rtm: false,
+        };
+      })
+    );
+    setLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const handleDownload = () => {
+    const filename = `${tournament.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}-auction-results.csv`;
+    downloadCsv(filename, getResultsCsv(teamResults, unsold));
+  };
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8 print:py-0 print:space-y-4">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild className="print:hidden">
+              <Link to={`/tournaments/${tournamentId}`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+              <p className="text-muted-foreground mt-1">Auction Results</p>
+            </div>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <Button variant="outline" onClick={handleDownload}>
+              <Download className="h-4 w-4 mr-2" />
+              Download CSV
+            </Button>
+            <Button onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save PDF
+            </Button>
+          </div>
+        </div>
+
+        {teamResults.length === 0 && (
+          <p className="text-center text-muted-foreground py-12">This tournament has no teams yet.</p>
+        )}
+
+        {/* Squads */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:block print:space-y-4">
+          {teamResults.map((team) => (
+            <Card key={team.id} className="break-inside-avoid print:shadow-none">
+              <CardHeader className="print:py-3">
+                <CardTitle className="flex items-center justify-between">
+                  <span>{team.name}</span>
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {team.players.length} players
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Player</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {team.players.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          No players.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      team.players.map((p) => (
+                        <TableRow key={p.player_id}>
+                          <TableCell className="font-medium">
+                            {p.name}
+                            {p.retained && (
+                              <Badge variant="secondary" className="ml-2">Retained</Badge>
+                            )}
+                            {p.rtm && (
+                              <Badge variant="secondary" className="ml-2">RTM</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{getPlayerTypeLabel(p.player_type)}</TableCell>
+                          <TableCell>{getResultCategoryLabel(p)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(p.price)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={3}>Total Spent</TableCell>
+                      <TableCell className="text-right">{formatCurrency(team.spent)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={3}>Purse Left</TableCell>
+                      <TableCell className="text-right">{formatCurrency(team.purse_left)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Unsold */}
+        {unsold.length > 0 && (
+          <Card className="break-inside-avoid print:shadow-none">
+            <CardHeader className="print:py-3">
+              <CardTitle>Unsold ({unsold.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Player</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Base Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unsold.map((p) => (
+                    <TableRow key={p.player_id}>
+                      <TableCell className="font-medium">{p.name}</TableCell>
+                      <TableCell>{getPlayerTypeLabel(p.player_type)}</TableCell>
+                      <TableCell>{getResultCategoryLabel(p)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(p.price)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Gavel, Lock, Circle } from "lucide-react";
+import { useAuctionRoom } from "@/hooks/use-auction-room";
+import { CountdownRing } from "@/components/auction/CountdownRing";
+import { SoldTakeover } from "@/components/auction/SoldTakeover";
+import {
+  formatCurrency,
+  getCategoryBadgeColor,
+  getInitials,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
+
+// The screen is laid out for a 1080p projector and scaled to fit the window
+const STAGE_WIDTH = 1920;
+const STAGE_HEIGHT = 1080;
+
+// How long the SOLD banner stays up before the room view returns
+const TAKEOVER_MS = 5000;
+
+interface SoldLot {
+  playerId: string;
+  teamId: string;
+  price: number;
+}
+
+const getStageScale = () =>
+  Math.min(window.innerWidth / STAGE_WIDTH, window.innerHeight / STAGE_HEIGHT);
+
+/**
+ * Big-screen view of the live auction for a projector. It has no controls
+ * and no site chrome: it follows the room over Realtime and needs no input
+ * once opened.
+ */
+export default function AuctionScreen() {
+  const { id: tournamentId } = useParams();
+  const {
+    loading,
+    tournament,
+    teams,
+    teamPlayers,
+    state,
+    lotBids,
+    highestBid,
+    pool,
+    profiles,
+    bidTime,
+    timeLeft,
+  } = useAuctionRoom(tournamentId);
+
+  const [scale, setScale] = useState(getStageScale);
+  const [soldLot, setSoldLot] = useState<SoldLot | null>(null);
+  const lotStatusRef = useRef<Record<string, string> | null>(null);
+
+  useEffect(() => {
+    const handleResize = () => setScale(getStageScale());
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  // Take over the screen whenever a lot flips to sold; the first load only
+  // records the statuses so old sales don't replay
+  useEffect(() => {
+    if (loading) return;
+    const previous = lotStatusRef.current;
+    lotStatusRef.current = Object.fromEntries(pool.map((entry) => [entry.player_id, entry.status]));
+    if (!previous) return;
+
+    const justSold = pool.find(
+      (entry) =>
+        entry.status === "sold" &&
+        previous[entry.player_id] !== "sold" &&
+        !!entry.sold_team_id
+    );
+    if (justSold?.sold_team_id) {
+      setSoldLot({
+        playerId: justSold.player_id,
+        teamId: justSold.sold_team_id,
+        price: justSold.sold_price ?? 0,
+      });
+    }
+  }, [loading, pool]);
+
+  useEffect(() => {
+    if (!soldLot) return;
+    const timeout = setTimeout(() => setSoldLot(null), TAKEOVER_MS);
+    return () => clearTimeout(timeout);
+  }, [soldLot]);
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map((t) => [t.id, t])),
+    [teams]
+  );
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white">
+        <Loader2 className="h-12 w-12 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white text-3xl">
+        Auction not found.
+      </div>
+    );
+  }
+
+  const currentPlayer = state?.current_player_id ? profiles[state.current_player_id] : undefined;
+  const currentPlayerName = currentPlayer?.full_name || "Player";
+  const currentLot = pool.find((entry) => entry.player_id === state?.current_player_id);
+  const basePrice = state?.lot_base_price ?? 0;
+  const leadingTeam = highestBid ? teamsById[highestBid.team_id] : undefined;
+  const sealedBidsHidden = tournament.tournament_type === "Sealed Bid" && !state?.sealed_revealed_at;
+  const playerCategory = currentLot?.player_category ?? currentPlayer?.player_category ?? null;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center overflow-hidden bg-black cursor-none">
+      <div
+        className="relative shrink-0 overflow-hidden bg-gradient-to-br from-slate-950 via-slate-900 to-primary/40 text-white"
+        style={{ width: STAGE_WIDTH, height: STAGE_HEIGHT, transform: `scale(${scale})` }}
+      >
+        <div className="absolute inset-0 cricket-pattern opacity-5" />
+
+        {/* Title Bar */}
+        <div className="relative flex items-center justify-between px-16 pt-10">
+          <div className="flex items-center gap-6">
+            <img
+              src={tournament.logo_url || "/placeholder.svg"}
+              alt={tournament.name}
+              className="h-20 w-20 rounded-xl bg-white/10 p-2 object-contain"
+            />
+            <h1 className="text-5xl font-display font-bold">{tournament.name}</h1>
+          </div>
+          {tournament.is_auction_live ? (
+            <div className="flex items-center gap-3 rounded-full bg-live px-6 py-3 text-2xl font-semibold uppercase tracking-widest">
+              <Circle className="h-4 w-4 fill-current animate-pulse" />
+              Live Auction
+            </div>
+          ) : (
+            <div className="rounded-full bg-white/10 px-6 py-3 text-2xl uppercase tracking-widest">
+              Auction Paused
+            </div>
+          )}
+        </div>
+
+        {/* Lot */}
+        <div className="relative grid grid-cols-[1fr_auto] gap-16 px-16 pt-12" style={{ height: 720 }}>
+          {state?.current_player_id ? (
+            <div
+              key={state.current_player_id}
+              className="flex items-center gap-14 rounded-3xl bg-white/5 p-14 animate-in fade-in slide-in-from-left-8 duration-700"
+            >
+              <Avatar className="h-80 w-80 border-8 border-primary">
+                <AvatarImage src={currentPlayer?.avatar_url || undefined} />
+                <AvatarFallback className="text-8xl bg-primary text-primary-foreground">
+                  {getInitials(currentPlayerName)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <h2 className="text-7xl font-display font-bold leading-tight">{currentPlayerName}</h2>
+                <div className="flex flex-wrap gap-4 mt-6">
+                  <Badge className="text-2xl px-5 py-2 bg-white/15 text-white border-0">
+                    {getPlayerTypeLabel(currentPlayer?.player_type ?? null)}
+                  </Badge>
+                  {playerCategory && (
+                    <Badge className={`text-2xl px-5 py-2 ${getCategoryBadgeColor(playerCategory)}`}>
+                      {getPlayerCategoryLabel(playerCategory)}
+                    </Badge>
+                  )}
+                  {currentLot?.auction_category && (
+                    <Badge className="text-2xl px-5 py-2 bg-white/15 text-white border-0">
+                      {currentLot.auction_category}
+                    </Badge>
+                  )}
+                </div>
+                <p className="mt-8 text-3xl text-white/70">Base price {formatCurrency(basePrice)}</p>
+
+                <div className="mt-10">
+                  {sealedBidsHidden ? (
+                    <div className="flex items-center gap-5 text-6xl font-display font-bold">
+                      <Lock className="h-14 w-14" />
+                      {state.sealed_bid_count} sealed bid{state.sealed_bid_count === 1 ? "" : "s"}
+                    </div>
+                  ) : highestBid ? (
+                    <div key={highestBid.id} className="animate-in zoom-in-95 fade-in duration-300">
+                      <p className="text-9xl font-display font-black text-accent">
+                        {formatCurrency(highestBid.bid_amount)}
+                      </p>
+                      <p className="mt-3 text-4xl font-semibold">{leadingTeam?.name || "Team"}</p>
+                    </div>
+                  ) : (
+                    <p className="text-5xl text-white/60">Waiting for the opening bid</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-3xl bg-white/5 text-white/70">
+              <Gavel className="h-32 w-32 mb-8" />
+              <p className="text-5xl font-display">Next player coming up</p>
+            </div>
+          )}
+
+          {/* Clock and Bid Ticker */}
+          <div className="flex w-[440px] flex-col items-center gap-10">
+            <CountdownRing
+              timeLeft={state?.is_bidding_open ? timeLeft : null}
+              total={bidTime}
+              paused={!!state?.is_paused}
+              size={300}
+            />
+            <div className="w-full flex-1 space-y-3 overflow-hidden">
+              {!sealedBidsHidden &&
+                lotBids.slice(0, 6).map((bid, index) => (
+                  <div
+                    key={bid.id}
+                    className={`flex items-center justify-between rounded-xl px-6 py-4 text-2xl animate-in slide-in-from-top-4 fade-in duration-500 ${index === 0 ? "bg-primary text-primary-foreground font-bold" : "bg-white/5 text-white/70"}`}
+                  >
+                    <span className="truncate">{teamsById[bid.team_id]?.name || "Team"}</span>
+                    <span className="font-semibold">{formatCurrency(bid.bid_amount)}</span>
+                  </div>
+                ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Team Purses */}
+        <div className="absolute bottom-0 inset-x-0 flex gap-4 px-16 pb-10">
+          {teams.map((team) => {
+            const squadSize = teamPlayers.filter((tp) => tp.team_id === team.id).length;
+            const isLeading = !sealedBidsHidden && leadingTeam?.id === team.id;
+            return (
+              <div
+                key={team.id}
+                className={`flex-1 min-w-0 rounded-2xl px-5 py-4 transition-colors duration-300 ${isLeading ? "bg-accent text-accent-foreground" : "bg-white/10"}`}
+              >
+                <p className="truncate text-2xl font-semibold">{team.name}</p>
+                <div className="mt-1 flex items-baseline justify-between">
+                  <span className="text-3xl font-display font-bold">
+                    {formatCurrency(team.budget_remaining)}
+                  </span>
+                  <span className="text-xl opacity-70">
+                    {squadSize}/{tournament.players_per_team}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {soldLot && (
+          <SoldTakeover
+            playerName={profiles[soldLot.playerId]?.full_name || "Player"}
+            teamName={teamsById[soldLot.teamId]?.name || "Team"}
+            price={soldLot.price}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,7 +19,7 @@ const tournamentFormSchema = z.object({
   logoUrl: z.string().optional(),
   
   // Tournament Type
-  tournamentType: z.enum(["Normal", "Auction", "Auction with Voting"], {
+  tournamentType: z.enum(["Normal", "Auction", "Auction with Voting", "Sealed Bid", "Draft"], {
     required_error: "Tournament type is required",
   }),
   
@@ -47,6 +47,7 @@ const tournamentFormSchema = z.object({
   // Auction Settings (conditional)
   teamBudget: z.number().min(10000, "Minimum budget is ₹10,000").optional(),
   basePrice: z.number().min(1000, "Minimum base price is ₹1,000").optional(),
+  sealedTieBreak: z.enum(["earliest_bid", "lower_spent"]).optional(),
   
   // Captain Voting (conditional)
   maxVotesPerPlayer: z.number().min(1).max(10).optional(),
@@ -94,6 +95,7 @@ export default function CreateTournament() {
       playersPerTeam: 15,
       teamBudget: 1000000,
       basePrice: 10000,
+      sealedTieBreak: "earliest_bid",
       maxVotesPerPlayer: 3,
       venueName: "",
       venueState: "",
@@ -157,6 +159,7 @@ export default function CreateTournament() {
         players_per_team: data.playersPerTeam,
         team_budget: data.teamBudget || 1000000,
         base_price: data.basePrice || 10000,
+        sealed_tie_break: data.sealedTieBreak || "earliest_bid",
         captain_voting_enabled: captainVotingEnabled,
         max_votes_per_player: captainVotingEnabled ? data.maxVotesPerPlayer : null,
         entry_fee: data.entryFee || 0,
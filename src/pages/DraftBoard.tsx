@@ -0,0 +1,297 @@
+import { useMemo, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, ArrowLeft, ListOrdered, Play, Timer, Users, CheckCircle2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDraftRoom } from "@/hooks/use-draft-room";
+import {
+  getAuctionErrorToast,
+  getInitials,
+  getPlayerTypeLabel,
+  getSnakeDraftTeam,
+} from "@/lib/auction";
+
+export default function DraftBoard() {
+  const { id: tournamentId } = useParams();
+  const { user } = useAuth();
+  const { loading, tournament, teams, draft, picks, availableIds, profiles, timeLeft } =
+    useDraftRoom(tournamentId);
+
+  const [busy, setBusy] = useState(false);
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map((t) => [t.id, t])),
+    [teams]
+  );
+
+  const picksBySlot = useMemo(
+    () => Object.fromEntries(picks.map((p) => [`${p.round}-${p.team_id}`, p])),
+    [picks]
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isOrganizer = !!user && tournament.organizer_id === user.id;
+  const teamOrder = draft?.team_order ?? [];
+  const teamCount = teamOrder.length;
+  const isComplete = !!draft?.completed_at;
+  const currentRound =
+    draft && teamCount > 0 ? Math.floor((draft.current_pick - 1) / teamCount) + 1 : 0;
+  const lastRound = Math.max(currentRound, ...picks.map((p) => p.round));
+  const clockTeamId = draft && !isComplete ? getSnakeDraftTeam(teamOrder, draft.current_pick) : undefined;
+  const clockTeam = clockTeamId ? teamsById[clockTeamId] : undefined;
+  const isMyPick =
+    !!user && !!clockTeam && (clockTeam.captain_id === user.id || clockTeam.owner_id === user.id);
+  const canPick = !!clockTeam && (isOrganizer || (isMyPick && !!timeLeft));
+  const playerName = (id: string | null) => (id ? profiles[id]?.full_name || "Player" : "—");
+
+  const handleStart = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("start_draft", { _tournament_id: tournament.id });
+    setBusy(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+    } else {
+      toast({ title: "Draft Started", description: "The first pick is on the clock." });
+    }
+  };
+
+  const handlePick = async (playerId: string) => {
+    setBusy(true);
+    const { error } = await supabase.rpc("make_draft_pick", {
+      _tournament_id: tournament.id,
+      _player_id: playerId,
+    });
+    setBusy(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+    } else {
+      toast({
+        title: "Pick Made",
+        description: `${playerName(playerId)} joins ${clockTeam?.name || "the team"}.`,
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/tournaments/${tournamentId}`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-muted-foreground">Draft Board</span>
+                {draft && !isComplete && <Badge variant="secondary">Round {currentRound}</Badge>}
+                {isComplete && (
+                  <Badge className="bg-success text-success-foreground">Complete</Badge>
+                )}
+              </div>
+            </div>
+          </div>
+          {isOrganizer && !draft && (
+            <Button onClick={handleStart} disabled={busy}>
+              {busy ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Start Draft
+            </Button>
+          )}
+        </div>
+
+        {!draft ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ListOrdered className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <p className="font-medium">The draft hasn't started yet</p>
+              <p className="text-sm text-muted-foreground">
+                {isOrganizer
+                  ? "Give every team a captain, then start the draft. The pick order is drawn at random."
+                  : "The organizer will start the draft once every team has a captain."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* On the Clock */}
+            {clockTeam ? (
+              <Card className="border-2 border-live overflow-hidden">
+                <div className="bg-live text-live-foreground px-4 py-2 flex items-center justify-between">
+                  <span className="font-semibold">
+                    Pick {draft.current_pick} · {clockTeam.name} on the clock
+                  </span>
+                  {timeLeft !== null && (
+                    <div className="flex items-center gap-2">
+                      <Timer className="h-4 w-4" />
+                      <span className="font-mono text-xl font-bold">{timeLeft}s</span>
+                    </div>
+                  )}
+                </div>
+                <CardContent className="py-4 text-sm text-muted-foreground">
+                  {isMyPick
+                    ? timeLeft
+                      ? "It's your pick. Choose a player from the list below."
+                      : "Time ran out. The organizer will make this pick."
+                    : isOrganizer && !timeLeft
+                      ? `Time ran out. Pick a player for ${clockTeam.name}.`
+                      : `Waiting for ${playerName(clockTeam.captain_id)} to pick.`}
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="py-6 flex items-center justify-center gap-2 font-medium">
+                  <CheckCircle2 className="h-5 w-5 text-success" />
+                  The draft is complete. Every drafted player is now in their team's squad.
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Board */}
+              <Card className="lg:col-span-2 overflow-x-auto">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListOrdered className="h-5 w-5 text-primary" />
+                    Board
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Round</TableHead>
+                        {teamOrder.map((teamId) => (
+                          <TableHead key={teamId}>{teamsById[teamId]?.name || "Team"}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">C</TableCell>
+                        {teamOrder.map((teamId) => (
+                          <TableCell key={teamId} className="font-medium">
+                            {playerName(teamsById[teamId]?.captain_id ?? null)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      {Array.from({ length: lastRound }, (_, i) => i + 1).map((round) => (
+                        <TableRow key={round}>
+                          <TableCell className="text-muted-foreground">{round}</TableCell>
+                          {teamOrder.map((teamId) => {
+                            const pick = picksBySlot[`${round}-${teamId}`];
+                            const onClock = round === currentRound && clockTeam?.id === teamId;
+                            return (
+                              <TableCell
+                                key={teamId}
+                                className={onClock ? "bg-live/10 font-medium text-live" : ""}
+                              >
+                                {pick ? (
+                                  <span className="animate-in fade-in duration-500">
+                                    {playerName(pick.player_id)}
+                                  </span>
+                                ) : onClock ? (
+                                  "On the clock"
+                                ) : (
+                                  ""
+                                )}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Available Players */}
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5 text-primary" />
+                    Available ({availableIds.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {availableIds.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No approved players left.
+                    </p>
+                  ) : (
+                    availableIds.map((playerId) => {
+                      const profile = profiles[playerId];
+                      const name = profile?.full_name || "Player";
+                      return (
+                        <div key={playerId} className="flex items-center gap-3 p-2 rounded-lg border">
+                          <Avatar className="h-9 w-9">
+                            <AvatarImage src={profile?.avatar_url || undefined} />
+                            <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                              {getInitials(name)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-sm truncate">{name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {getPlayerTypeLabel(profile?.player_type ?? null)}
+                            </p>
+                          </div>
+                          {canPick && (
+                            <Button size="sm" onClick={() => handlePick(playerId)} disabled={busy}>
+                              Pick
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
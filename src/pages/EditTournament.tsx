@@ -17,7 +17,7 @@ const tournamentFormSchema = z.object({
   name: z.string().min(3, "Tournament name must be at least 3 characters"),
   slogan: z.string().optional(),
   logoUrl: z.string().optional(),
-  tournamentType: z.enum(["Normal", "Auction", "Auction with Voting"], {
+  tournamentType: z.enum(["Normal", "Auction", "Auction with Voting", "Sealed Bid", "Draft"], {
     required_error: "Tournament type is required",
   }),
   category: z.string({ required_error: "Category is required" }),
@@ -37,6 +37,7 @@ const tournamentFormSchema = z.object({
   playersPerTeam: z.number().min(11, "Minimum 11 players").max(25, "Maximum 25 players"),
   teamBudget: z.number().min(10000, "Minimum budget is ₹10,000").optional(),
   basePrice: z.number().min(1000, "Minimum base price is ₹1,000").optional(),
+  sealedTieBreak: z.enum(["earliest_bid", "lower_spent"]).optional(),
   maxVotesPerPlayer: z.number().min(1).max(10).optional(),
   entryFee: z.number().min(0, "Entry fee cannot be negative").optional(),
   paymentInstructions: z.string().optional(),
@@ -71,6 +72,7 @@ export default function EditTournament() {
       playersPerTeam: 15,
       teamBudget: 1000000,
       basePrice: 10000,
+      sealedTieBreak: "earliest_bid",
       maxVotesPerPlayer: 3,
       venueName: "",
       venueState: "",
@@ -118,7 +120,7 @@ export default function EditTournament() {
         }
 
         // Determine tournament type from data
-        let tournamentType: "Normal" | "Auction" | "Auction with Voting" = "Normal";
+        let tournamentType: "Normal" | "Auction" | "Auction with Voting" | "Sealed Bid" | "Draft" = "Normal";
         if (data.tournament_type) {
           tournamentType = data.tournament_type as typeof tournamentType;
         } else if (data.captain_voting_enabled) {
@@ -147,6 +149,7 @@ export default function EditTournament() {
           playersPerTeam: data.players_per_team,
           teamBudget: data.team_budget,
           basePrice: data.base_price,
+          sealedTieBreak: data.sealed_tie_break as TournamentFormData["sealedTieBreak"],
           maxVotesPerPlayer: data.max_votes_per_player || 3,
           entryFee: data.entry_fee || 0,
           paymentInstructions: data.payment_instructions || "",
@@ -201,6 +204,7 @@ export default function EditTournament() {
           players_per_team: data.playersPerTeam,
           team_budget: data.teamBudget || 1000000,
           base_price: data.basePrice || 10000,
+          sealed_tie_break: data.sealedTieBreak || "earliest_bid",
           captain_voting_enabled: captainVotingEnabled,
           max_votes_per_player: captainVotingEnabled ? data.maxVotesPerPlayer : null,
           entry_fee: data.entryFee || 0,
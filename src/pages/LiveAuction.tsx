@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,116 +6,138 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { 
-  Gavel, 
-  Users, 
-  Circle, 
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Gavel,
+  Circle,
   Timer,
   TrendingUp,
   ArrowLeft,
   IndianRupee,
-  User,
   ChevronUp,
   Trophy,
-  Wallet
+  Wallet,
+  Loader2,
+  History,
+  Users,
+  Bot,
+  Lock
 } from "lucide-react";
-import { mockTournaments, getCategoryLabel, getBallTypeLabel } from "@/data/mockData";
-
-// Mock player data for auction
-interface AuctionPlayer {
-  id: string;
-  name: string;
-  avatar?: string;
-  type: 'batsman' | 'bowler' | 'all_rounder' | 'wicket_keeper';
-  category: 'a_plus' | 'a' | 'b' | 'c';
-  basePrice: number;
-  currentBid: number;
-  status: 'upcoming' | 'bidding' | 'sold' | 'unsold';
-  soldTo?: string;
-  soldPrice?: number;
-}
-
-interface Team {
-  id: string;
-  name: string;
-  logo?: string;
-  budget: number;
-  spent: number;
-  playerCount: number;
-}
-
-const mockPlayers: AuctionPlayer[] = [
-  { id: '1', name: 'Virat Singh', type: 'batsman', category: 'a_plus', basePrice: 50000, currentBid: 75000, status: 'bidding' },
-  { id: '2', name: 'Rohit Sharma Jr', type: 'batsman', category: 'a', basePrice: 40000, currentBid: 0, status: 'upcoming' },
-  { id: '3', name: 'Jasprit Patel', type: 'bowler', category: 'a_plus', basePrice: 50000, currentBid: 0, status: 'upcoming' },
-  { id: '4', name: 'Ravindra Jadeja II', type: 'all_rounder', category: 'a', basePrice: 40000, currentBid: 55000, status: 'sold', soldTo: 'Mumbai Warriors', soldPrice: 55000 },
-  { id: '5', name: 'MS Sharma', type: 'wicket_keeper', category: 'b', basePrice: 25000, currentBid: 32000, status: 'sold', soldTo: 'Delhi Capitals', soldPrice: 32000 },
-  { id: '6', name: 'Hardik Verma', type: 'all_rounder', category: 'a', basePrice: 40000, currentBid: 0, status: 'upcoming' },
-  { id: '7', name: 'Bumrah Clone', type: 'bowler', category: 'b', basePrice: 25000, currentBid: 0, status: 'unsold' },
-];
-
-const mockTeams: Team[] = [
-  { id: '1', name: 'Mumbai Warriors', logo: '/placeholder.svg', budget: 500000, spent: 155000, playerCount: 4 },
-  { id: '2', name: 'Delhi Capitals', logo: '/placeholder.svg', budget: 500000, spent: 132000, playerCount: 3 },
-  { id: '3', name: 'Chennai Kings', logo: '/placeholder.svg', budget: 500000, spent: 98000, playerCount: 3 },
-  { id: '4', name: 'Kolkata Tigers', logo: '/placeholder.svg', budget: 500000, spent: 75000, playerCount: 2 },
-  { id: '5', name: 'Bangalore Bulls', logo: '/placeholder.svg', budget: 500000, spent: 112000, playerCount: 3 },
-  { id: '6', name: 'Hyderabad Hawks', logo: '/placeholder.svg', budget: 500000, spent: 45000, playerCount: 1 },
-];
-
-const getPlayerTypeLabel = (type: AuctionPlayer['type']) => {
-  const labels = {
-    batsman: 'Batsman',
-    bowler: 'Bowler',
-    all_rounder: 'All-Rounder',
-    wicket_keeper: 'Wicket Keeper'
-  };
-  return labels[type];
-};
-
-const getCategoryBadgeColor = (category: AuctionPlayer['category']) => {
-  const colors = {
-    a_plus: 'bg-accent text-accent-foreground',
-    a: 'bg-primary text-primary-foreground',
-    b: 'bg-secondary text-secondary-foreground',
-    c: 'bg-muted text-muted-foreground'
-  };
-  return colors[category];
-};
-
-const formatCurrency = (amount: number) => {
-  if (amount >= 100000) {
-    return `₹${(amount / 100000).toFixed(1)}L`;
-  }
-  return `₹${amount.toLocaleString('en-IN')}`;
-};
+import { getCategoryLabel, getBallTypeLabel } from "@/data/mockData";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useAuctionRoom } from "@/hooks/use-auction-room";
+import type { AuctionPoolEntry } from "@/hooks/use-auction-room";
+import { AutoBidDialog } from "@/components/auction/AutoBidDialog";
+import { SealedBidForm } from "@/components/auction/SealedBidForm";
+import { SealedBidReveal } from "@/components/auction/SealedBidReveal";
+import { OwnerWarRoom } from "@/components/auction/OwnerWarRoom";
+import {
+  formatCurrency,
+  getAuctionErrorToast,
+  getBidErrorToast,
+  getCategoryBadgeColor,
+  getInitials,
+  getMaxAllowedBid,
+  getNextBidAmount,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
 
 const LiveAuction = () => {
   const { id } = useParams<{ id: string }>();
-  const [currentBid, setCurrentBid] = useState(75000);
-  const [timeLeft, setTimeLeft] = useState(15);
-  
-  const tournament = useMemo(() => {
-    return mockTournaments.find((t) => t.id === id);
-  }, [id]);
+  const { user } = useAuth();
+  const {
+    loading,
+    tournament,
+    teams,
+    teamPlayers,
+    state,
+    lotBids,
+    highestBid,
+    incrementSlabs,
+    reservePrice,
+    pool,
+    profiles,
+    timeLeft,
+    rtmTimeLeft,
+  } = useAuctionRoom(id);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [placingBid, setPlacingBid] = useState(false);
+  const [answeringRtm, setAnsweringRtm] = useState(false);
+  const [squadRuleReason, setSquadRuleReason] = useState<string | null>(null);
+  // The bidding team's private auto-bid ceilings, keyed by player
+  const [autoBids, setAutoBids] = useState<Record<string, number>>({});
+  const [autoBidLot, setAutoBidLot] = useState<AuctionPoolEntry | null>(null);
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map((t) => [t.id, t])),
+    [teams]
+  );
 
-  const currentPlayer = mockPlayers.find(p => p.status === 'bidding');
+  const ownedTeams = useMemo(
+    () => (user ? teams.filter((t) => t.owner_id === user.id) : []),
+    [teams, user]
+  );
+  const biddingTeam = ownedTeams.find((t) => t.id === selectedTeamId) ?? ownedTeams[0];
+  const biddingTeamId = biddingTeam?.id;
+  const currentPlayerId = state?.current_player_id;
 
-  // Simulate countdown timer
+  // Ask the server whether winning this lot would break the squad rules
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => (prev > 0 ? prev - 1 : 15));
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
+    setSquadRuleReason(null);
+    if (!biddingTeamId || !currentPlayerId) return;
+
+    let cancelled = false;
+    supabase
+      .rpc("check_squad_rules", { _team_id: biddingTeamId, _player_id: currentPlayerId })
+      .then(({ data }) => {
+        if (!cancelled) setSquadRuleReason(data || null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [biddingTeamId, currentPlayerId, teamPlayers.length]);
+
+  const fetchAutoBids = useCallback(async () => {
+    if (!biddingTeamId) {
+      setAutoBids({});
+      return;
+    }
+    const { data } = await supabase
+      .from("auto_bids")
+      .select("player_id, max_amount")
+      .eq("team_id", biddingTeamId);
+
+    setAutoBids(Object.fromEntries((data || []).map((a) => [a.player_id, a.max_amount])));
+  }, [biddingTeamId]);
 
-  // Simulate bid updates
   useEffect(() => {
-    const bidTimer = setInterval(() => {
-      setCurrentBid((prev) => prev + 5000);
-    }, 8000);
-    return () => clearInterval(bidTimer);
-  }, []);
+    fetchAutoBids();
+  }, [fetchAutoBids]);
+
+  const upcomingLots = useMemo(
+    () => pool.filter((entry) => entry.is_included && entry.status === "upcoming"),
+    [pool]
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="container py-16 flex justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
 
   if (!tournament) {
     return (
@@ -130,9 +152,94 @@ const LiveAuction = () => {
     );
   }
 
-  const soldPlayers = mockPlayers.filter(p => p.status === 'sold').length;
-  const totalPlayers = mockPlayers.length;
-  const progressPercent = (soldPlayers / totalPlayers) * 100;
+  const currentPlayer = state?.current_player_id ? profiles[state.current_player_id] : undefined;
+  const currentPlayerName = currentPlayer?.full_name || "Player";
+  const basePrice = state?.lot_base_price ?? 0;
+  const currentBid = highestBid?.bid_amount ?? basePrice;
+  const nextBid = getNextBidAmount(basePrice, highestBid?.bid_amount ?? null, incrementSlabs);
+  const leadingTeam = highestBid ? teamsById[highestBid.team_id] : undefined;
+  const isSealed = tournament.tournament_type === "Sealed Bid";
+  const sealedBidsHidden = isSealed && !state?.sealed_revealed_at;
+
+  const totalSlots = tournament.number_of_teams * tournament.players_per_team;
+  const soldPlayers = teamPlayers.length;
+  const progressPercent = totalSlots > 0 ? Math.min((soldPlayers / totalSlots) * 100, 100) : 0;
+  const totalSpent = teamPlayers.reduce((sum, tp) => sum + tp.sold_price, 0);
+
+  const getTeamMaxBid = (teamId: string, budgetRemaining: number) =>
+    getMaxAllowedBid(
+      budgetRemaining,
+      teamPlayers.filter((tp) => tp.team_id === teamId).length,
+      tournament.players_per_team,
+      reservePrice
+    );
+  const biddingTeamMaxBid = biddingTeam
+    ? getTeamMaxBid(biddingTeam.id, biddingTeam.budget_remaining)
+    : 0;
+
+  const canSeal =
+    !!biddingTeam &&
+    !!state?.is_bidding_open &&
+    !state.is_paused &&
+    !state.sealed_revealed_at &&
+    !!tournament.is_auction_live &&
+    timeLeft !== null &&
+    timeLeft > 0 &&
+    basePrice <= biddingTeamMaxBid &&
+    !squadRuleReason;
+
+  const canBid =
+    !!biddingTeam &&
+    !!state?.is_bidding_open &&
+    !state.is_paused &&
+    !!tournament.is_auction_live &&
+    timeLeft !== null &&
+    timeLeft > 0 &&
+    highestBid?.team_id !== biddingTeam.id &&
+    nextBid <= biddingTeamMaxBid &&
+    !squadRuleReason;
+
+  const handlePlaceBid = async (amount = nextBid) => {
+    if (!biddingTeam || !state?.current_player_id) return;
+
+    setPlacingBid(true);
+    const { error } = await supabase.rpc("place_bid", {
+      _tournament_id: tournament.id,
+      _player_id: state.current_player_id,
+      _team_id: biddingTeam.id,
+      _amount: amount,
+    });
+    setPlacingBid(false);
+
+    if (error) {
+      toast({ ...getBidErrorToast(error), variant: "destructive" });
+    }
+  };
+
+  const currentLot = pool.find((entry) => entry.player_id === currentPlayerId);
+
+  const rtmTeam = state?.rtm_team_id ? teamsById[state.rtm_team_id] : undefined;
+  const ownsRtmTeam = !!rtmTeam && ownedTeams.some((t) => t.id === rtmTeam.id);
+
+  const handleRtm = async (match: boolean) => {
+    setAnsweringRtm(true);
+    const { error } = await supabase.rpc("exercise_rtm", {
+      _tournament_id: tournament.id,
+      _match: match,
+    });
+    setAnsweringRtm(false);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error), variant: "destructive" });
+    } else {
+      toast({
+        title: match ? "Player Matched" : "Match Declined",
+        description: match
+          ? `${currentPlayerName} stays with ${rtmTeam?.name}.`
+          : `${currentPlayerName} goes to ${leadingTeam?.name || "the winning bidder"}.`,
+      });
+    }
+  };
 
   return (
     <Layout>
@@ -147,8 +254,14 @@ const LiveAuction = () => {
               </Link>
             </Button>
             <div className="flex items-center gap-2">
-              <Circle className="h-3 w-3 fill-live-foreground text-live-foreground animate-pulse" />
-              <span className="text-sm font-medium uppercase tracking-wide">Live Auction</span>
+              {tournament.is_auction_live ? (
+                <>
+                  <Circle className="h-3 w-3 fill-live-foreground text-live-foreground animate-pulse" />
+                  <span className="text-sm font-medium uppercase tracking-wide">Live Auction</span>
+                </>
+              ) : (
+                <span className="text-sm font-medium uppercase tracking-wide">Auction Paused</span>
+              )}
             </div>
           </div>
           <div className="flex flex-col md:flex-row md:items-center gap-4">
@@ -168,6 +281,11 @@ const LiveAuction = () => {
                 <Badge variant="secondary" className="bg-background/20 text-primary-foreground border-0">
                   {getBallTypeLabel(tournament.ball_type)}
                 </Badge>
+                {(state?.current_round ?? 1) > 1 && (
+                  <Badge variant="secondary" className="bg-background/20 text-primary-foreground border-0">
+                    Round {state?.current_round}
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
@@ -179,7 +297,7 @@ const LiveAuction = () => {
         <div className="container py-3">
           <div className="flex items-center justify-between text-sm mb-2">
             <span className="text-muted-foreground">Auction Progress</span>
-            <span className="font-medium">{soldPlayers}/{totalPlayers} Players Sold</span>
+            <span className="font-medium">{soldPlayers}/{totalSlots} Squad Slots Filled</span>
           </div>
           <Progress value={progressPercent} className="h-2" />
         </div>
@@ -192,92 +310,296 @@ const LiveAuction = () => {
             {/* Left: Current Bid */}
             <div className="lg:col-span-2 space-y-6">
               {/* Current Player Card */}
-              {currentPlayer && (
+              {state?.current_player_id ? (
                 <Card className="border-2 border-live overflow-hidden">
                   <div className="bg-live text-live-foreground px-4 py-2 flex items-center justify-between">
                     <span className="font-semibold flex items-center gap-2">
                       <Gavel className="h-4 w-4" />
-                      Currently Bidding
+                      {!state.is_bidding_open
+                        ? "Bidding Closed"
+                        : state.is_paused
+                          ? "Bidding Paused"
+                          : "Currently Bidding"}
                     </span>
-                    <div className="flex items-center gap-2">
-                      <Timer className="h-4 w-4" />
-                      <span className="font-mono text-xl font-bold">{timeLeft}s</span>
-                    </div>
+                    {timeLeft !== null && (
+                      <div className="flex items-center gap-2">
+                        <Timer className="h-4 w-4" />
+                        <span className="font-mono text-xl font-bold">{timeLeft}s</span>
+                      </div>
+                    )}
                   </div>
                   <CardContent className="p-6">
                     <div className="flex flex-col md:flex-row gap-6">
                       {/* Player Info */}
                       <div className="flex items-center gap-4 flex-1">
                         <Avatar className="h-24 w-24 border-4 border-primary">
-                          <AvatarImage src={currentPlayer.avatar} />
+                          <AvatarImage src={currentPlayer?.avatar_url || undefined} />
                           <AvatarFallback className="text-2xl bg-primary text-primary-foreground">
-                            {currentPlayer.name.split(' ').map(n => n[0]).join('')}
+                            {getInitials(currentPlayerName)}
                           </AvatarFallback>
                         </Avatar>
                         <div>
-                          <h2 className="text-2xl font-display font-bold">{currentPlayer.name}</h2>
+                          <h2 className="text-2xl font-display font-bold">{currentPlayerName}</h2>
                           <div className="flex flex-wrap gap-2 mt-2">
-                            <Badge variant="outline">{getPlayerTypeLabel(currentPlayer.type)}</Badge>
-                            <Badge className={getCategoryBadgeColor(currentPlayer.category)}>
-                              {currentPlayer.category.replace('_', '+').toUpperCase()}
-                            </Badge>
+                            <Badge variant="outline">{getPlayerTypeLabel(currentPlayer?.player_type ?? null)}</Badge>
+                            {currentPlayer?.player_category && (
+                              <Badge className={getCategoryBadgeColor(currentPlayer.player_category)}>
+                                {getPlayerCategoryLabel(currentPlayer.player_category)}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground mt-2">
-                            Base Price: {formatCurrency(currentPlayer.basePrice)}
+                            Base Price: {formatCurrency(basePrice)}
                           </p>
                         </div>
                       </div>
 
                       {/* Current Bid */}
-                      <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
-                        <p className="text-sm text-muted-foreground mb-1">Current Bid</p>
-                        <div className="flex items-center justify-center gap-1 text-4xl font-display font-bold text-primary">
-                          <IndianRupee className="h-8 w-8" />
-                          <span>{currentBid.toLocaleString('en-IN')}</span>
+                      {sealedBidsHidden ? (
+                        <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
+                          <p className="text-sm text-muted-foreground mb-1">Sealed Bids</p>
+                          <div className="flex items-center justify-center gap-2 text-4xl font-display font-bold text-primary">
+                            <Lock className="h-8 w-8" />
+                            <span>{state.sealed_bid_count}</span>
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-2">
+                            Hidden until the reveal
+                          </p>
                         </div>
-                        <div className="flex items-center justify-center gap-1 text-success mt-2">
-                          <ChevronUp className="h-4 w-4" />
-                          <span className="text-sm font-medium">
-                            +{formatCurrency(currentBid - currentPlayer.basePrice)} from base
-                          </span>
+                      ) : (
+                        <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
+                          <p className="text-sm text-muted-foreground mb-1">
+                            {highestBid ? (isSealed ? "Winning Bid" : "Current Bid") : "Opening Price"}
+                          </p>
+                          <div className="flex items-center justify-center gap-1 text-4xl font-display font-bold text-primary">
+                            <IndianRupee className="h-8 w-8" />
+                            <span>{currentBid.toLocaleString('en-IN')}</span>
+                          </div>
+                          {leadingTeam ? (
+                            <>
+                              <p className="text-sm font-medium mt-2">{leadingTeam.name}</p>
+                              <div className="flex items-center justify-center gap-1 text-success mt-1">
+                                <ChevronUp className="h-4 w-4" />
+                                <span className="text-sm font-medium">
+                                  +{formatCurrency(currentBid - basePrice)} from base
+                                </span>
+                              </div>
+                            </>
+                          ) : (
+                            <p className="text-sm text-muted-foreground mt-2">No bids yet</p>
+                          )}
                         </div>
+                      )}
+                    </div>
+
+                    {/* Right to Match */}
+                    {rtmTeam && (
+                      <div className="mt-6 p-4 rounded-lg border border-accent bg-accent/10">
+                        {ownsRtmTeam ? (
+                          <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                            <p className="flex-1 text-sm">
+                              <span className="font-semibold">Right to Match:</span> keep{" "}
+                              {currentPlayerName} for {rtmTeam.name} at{" "}
+                              {formatCurrency(currentBid)}? {rtmTimeLeft ?? 0}s left.
+                            </p>
+                            <Button
+                              className="bg-success text-success-foreground hover:bg-success/90"
+                              disabled={answeringRtm || !rtmTimeLeft}
+                              onClick={() => handleRtm(true)}
+                            >
+                              {answeringRtm && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                              Match {formatCurrency(currentBid)}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              disabled={answeringRtm || !rtmTimeLeft}
+                              onClick={() => handleRtm(false)}
+                            >
+                              Decline
+                            </Button>
+                          </div>
+                        ) : (
+                          <p className="text-sm">
+                            <span className="font-semibold">Right to Match:</span> {rtmTeam.name}{" "}
+                            {rtmTimeLeft
+                              ? `has ${rtmTimeLeft}s to match the winning bid.`
+                              : "didn't match the winning bid."}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Bid Controls - team owners only */}
+                    {ownedTeams.length > 0 && (
+                      <div className="mt-6 pt-6 border-t flex flex-col sm:flex-row gap-3 sm:items-center">
+                        {ownedTeams.length > 1 && (
+                          <Select
+                            value={biddingTeam?.id}
+                            onValueChange={setSelectedTeamId}
+                          >
+                            <SelectTrigger className="sm:w-56">
+                              <SelectValue placeholder="Select team" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ownedTeams.map((team) => (
+                                <SelectItem key={team.id} value={team.id}>
+                                  {team.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {isSealed && biddingTeam && currentPlayerId ? (
+                          <SealedBidForm
+                            tournamentId={tournament.id}
+                            playerId={currentPlayerId}
+                            lotOpenedAt={state.lot_opened_at}
+                            teamId={biddingTeam.id}
+                            teamName={biddingTeam.name}
+                            basePrice={basePrice}
+                            maxBid={biddingTeamMaxBid}
+                            disabled={!canSeal}
+                          />
+                        ) : (
+                          <>
+                            <Button
+                              size="lg"
+                              className="flex-1 bg-live text-live-foreground hover:bg-live/90"
+                              disabled={!canBid || placingBid}
+                              onClick={() => handlePlaceBid()}
+                            >
+                              {placingBid ? (
+                                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                              ) : (
+                                <Gavel className="h-5 w-5 mr-2" />
+                              )}
+                              Bid {formatCurrency(nextBid)}
+                              {ownedTeams.length === 1 && ` for ${biddingTeam?.name}`}
+                            </Button>
+                            <Button
+                              size="lg"
+                              variant="outline"
+                              disabled={!currentLot}
+                              onClick={() => currentLot && setAutoBidLot(currentLot)}
+                            >
+                              <Bot className="h-5 w-5 mr-2" />
+                              {currentPlayerId && autoBids[currentPlayerId] !== undefined
+                                ? `Auto up to ${formatCurrency(autoBids[currentPlayerId])}`
+                                : "Auto-Bid"}
+                            </Button>
+                          </>
+                        )}
+                        {squadRuleReason ? (
+                          <p className="text-xs text-destructive sm:w-40">{squadRuleReason}</p>
+                        ) : biddingTeam && (isSealed ? basePrice : nextBid) > biddingTeamMaxBid && (
+                          <p className="text-xs text-muted-foreground sm:w-40">
+                            {biddingTeamMaxBid > 0
+                              ? `Max bid ${formatCurrency(biddingTeamMaxBid)} keeps enough purse to fill your squad.`
+                              : "Your squad is complete."}
+                          </p>
+                        )}
                       </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <Gavel className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+                    <p className="font-medium">Waiting for the next player</p>
+                    <p className="text-sm text-muted-foreground">
+                      The auctioneer will nominate the next player shortly.
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Bid History */}
+              {isSealed && state?.current_player_id && state.lot_opened_at && state.sealed_revealed_at ? (
+                <SealedBidReveal
+                  key={state.sealed_revealed_at}
+                  tournamentId={tournament.id}
+                  playerId={state.current_player_id}
+                  lotOpenedAt={state.lot_opened_at}
+                  teamNames={Object.fromEntries(teams.map((t) => [t.id, t.name]))}
+                  winnerTeamId={highestBid?.team_id}
+                />
+              ) : !isSealed && lotBids.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="h-5 w-5 text-primary" />
+                      Bid History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      {lotBids.slice(0, 8).map((bid, index) => (
+                        <div
+                          key={bid.id}
+                          className={`flex items-center justify-between p-3 rounded-lg ${index === 0 ? 'bg-primary/10 border border-primary/20' : 'bg-muted/50'}`}
+                        >
+                          <span className="font-medium">{teamsById[bid.team_id]?.name || "Team"}</span>
+                          <span className="font-semibold">{formatCurrency(bid.bid_amount)}</span>
+                        </div>
+                      ))}
                     </div>
                   </CardContent>
                 </Card>
               )}
 
               {/* Players Queue */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Users className="h-5 w-5 text-primary" />
-                    Player Queue
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {mockPlayers.filter(p => p.status === 'upcoming').slice(0, 4).map((player, index) => (
-                      <div key={player.id} className="flex items-center gap-4 p-3 rounded-lg bg-muted/50">
-                        <span className="text-sm text-muted-foreground font-medium w-6">{index + 1}</span>
-                        <Avatar className="h-10 w-10">
-                          <AvatarFallback className="bg-primary/10 text-primary">
-                            {player.name.split(' ').map(n => n[0]).join('')}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1">
-                          <p className="font-medium">{player.name}</p>
-                          <p className="text-xs text-muted-foreground">{getPlayerTypeLabel(player.type)}</p>
-                        </div>
-                        <Badge className={getCategoryBadgeColor(player.category)}>
-                          {player.category.replace('_', '+').toUpperCase()}
-                        </Badge>
-                        <span className="text-sm font-medium">{formatCurrency(player.basePrice)}</span>
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
+              {upcomingLots.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5 text-primary" />
+                      Player Queue
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {upcomingLots.slice(0, 4).map((entry, index) => {
+                        const name = profiles[entry.player_id]?.full_name || "Player";
+                        return (
+                          <div key={entry.id} className="flex items-center gap-4 p-3 rounded-lg bg-muted/50">
+                            <span className="text-sm text-muted-foreground font-medium w-6">{index + 1}</span>
+                            <Avatar className="h-10 w-10">
+                              <AvatarImage src={profiles[entry.player_id]?.avatar_url || undefined} />
+                              <AvatarFallback className="bg-primary/10 text-primary">
+                                {getInitials(name)}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1">
+                              <p className="font-medium">{name}</p>
+                              <p className="text-xs text-muted-foreground">{getPlayerTypeLabel(entry.player_type)}</p>
+                            </div>
+                            {entry.player_category && (
+                              <Badge className={getCategoryBadgeColor(entry.player_category)}>
+                                {getPlayerCategoryLabel(entry.player_category)}
+                              </Badge>
+                            )}
+                            <span className="text-sm font-medium">{formatCurrency(entry.base_price)}</span>
+                            {biddingTeam && !isSealed && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className={autoBids[entry.player_id] !== undefined ? "text-primary" : ""}
+                                onClick={() => setAutoBidLot(entry)}
+                              >
+                                <Bot className="h-4 w-4 mr-1" />
+                                {autoBids[entry.player_id] !== undefined
+                                  ? formatCurrency(autoBids[entry.player_id])
+                                  : "Auto"}
+                              </Button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
 
               {/* Sold Players */}
               <Card>
@@ -288,31 +610,62 @@ const LiveAuction = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-3">
-                    {mockPlayers.filter(p => p.status === 'sold').map((player) => (
-                      <div key={player.id} className="flex items-center gap-4 p-3 rounded-lg bg-success/5 border border-success/20">
-                        <Avatar className="h-10 w-10">
-                          <AvatarFallback className="bg-success/10 text-success">
-                            {player.name.split(' ').map(n => n[0]).join('')}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1">
-                          <p className="font-medium">{player.name}</p>
-                          <p className="text-xs text-muted-foreground">{getPlayerTypeLabel(player.type)}</p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-semibold text-success">{formatCurrency(player.soldPrice || 0)}</p>
-                          <p className="text-xs text-muted-foreground">→ {player.soldTo}</p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  {teamPlayers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No players sold yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {teamPlayers.slice(0, 10).map((tp) => {
+                        const name = profiles[tp.player_id]?.full_name || "Player";
+                        return (
+                          <div key={tp.id} className="flex items-center gap-4 p-3 rounded-lg bg-success/5 border border-success/20">
+                            <Avatar className="h-10 w-10">
+                              <AvatarImage src={profiles[tp.player_id]?.avatar_url || undefined} />
+                              <AvatarFallback className="bg-success/10 text-success">
+                                {getInitials(name)}
+                              </AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1">
+                              <p className="font-medium">{name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {getPlayerTypeLabel(profiles[tp.player_id]?.player_type ?? null)}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold text-success">{formatCurrency(tp.sold_price)}</p>
+                              <p className="text-xs text-muted-foreground">→ {teamsById[tp.team_id]?.name}</p>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
 
             {/* Right: Teams */}
             <div className="space-y-6">
+              {biddingTeam && (
+                <OwnerWarRoom
+                  tournamentId={tournament.id}
+                  team={biddingTeam}
+                  squad={teamPlayers.filter((tp) => tp.team_id === biddingTeam.id)}
+                  pool={pool}
+                  profiles={profiles}
+                  playersPerTeam={tournament.players_per_team}
+                  maxBid={biddingTeamMaxBid}
+                  currentPlayerId={currentPlayerId}
+                  nextBid={nextBid}
+                  incrementSlabs={incrementSlabs}
+                  canBid={canBid}
+                  placingBid={placingBid}
+                  sealed={isSealed}
+                  onBid={handlePlaceBid}
+                />
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -321,33 +674,43 @@ const LiveAuction = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {mockTeams.map((team) => {
-                    const remainingBudget = team.budget - team.spent;
-                    const budgetPercent = (team.spent / team.budget) * 100;
-                    
+                  {teams.map((team) => {
+                    const squad = teamPlayers.filter((tp) => tp.team_id === team.id);
+                    const spent = squad.reduce((sum, tp) => sum + tp.sold_price, 0);
+                    const budget = team.budget_remaining + spent;
+                    const budgetPercent = budget > 0 ? (spent / budget) * 100 : 0;
+
                     return (
                       <div key={team.id} className="p-3 rounded-lg border bg-card">
                         <div className="flex items-center gap-3 mb-2">
                           <Avatar className="h-8 w-8">
-                            <AvatarImage src={team.logo} />
+                            <AvatarImage src={team.logo_url || undefined} />
                             <AvatarFallback className="text-xs bg-primary/10 text-primary">
-                              {team.name.split(' ').map(n => n[0]).join('')}
+                              {getInitials(team.name)}
                             </AvatarFallback>
                           </Avatar>
                           <div className="flex-1 min-w-0">
                             <p className="font-medium text-sm truncate">{team.name}</p>
-                            <p className="text-xs text-muted-foreground">{team.playerCount} players</p>
+                            <p className="text-xs text-muted-foreground">
+                              {squad.length}/{tournament.players_per_team} players
+                            </p>
                           </div>
                         </div>
                         <div className="space-y-1">
                           <div className="flex justify-between text-xs">
                             <span className="text-muted-foreground">Remaining</span>
-                            <span className="font-medium">{formatCurrency(remainingBudget)}</span>
+                            <span className="font-medium">{formatCurrency(team.budget_remaining)}</span>
+                          </div>
+                          <div className="flex justify-between text-xs">
+                            <span className="text-muted-foreground">Max Bid</span>
+                            <span className="font-medium text-primary">
+                              {formatCurrency(getTeamMaxBid(team.id, team.budget_remaining))}
+                            </span>
                           </div>
                           <Progress value={budgetPercent} className="h-1.5" />
                           <div className="flex justify-between text-xs text-muted-foreground">
-                            <span>Spent: {formatCurrency(team.spent)}</span>
-                            <span>of {formatCurrency(team.budget)}</span>
+                            <span>Spent: {formatCurrency(spent)}</span>
+                            <span>of {formatCurrency(budget)}</span>
                           </div>
                         </div>
                       </div>
@@ -371,18 +734,16 @@ const LiveAuction = () => {
                       <p className="text-xs text-muted-foreground">Players Sold</p>
                     </div>
                     <div className="text-center p-3 rounded-lg bg-muted/50">
-                      <p className="text-2xl font-bold text-accent">{mockPlayers.filter(p => p.status === 'unsold').length}</p>
-                      <p className="text-xs text-muted-foreground">Unsold</p>
+                      <p className="text-2xl font-bold text-accent">{lotBids.length}</p>
+                      <p className="text-xs text-muted-foreground">Bids This Lot</p>
                     </div>
                     <div className="text-center p-3 rounded-lg bg-muted/50">
-                      <p className="text-2xl font-bold text-success">
-                        {formatCurrency(mockPlayers.filter(p => p.status === 'sold').reduce((sum, p) => sum + (p.soldPrice || 0), 0))}
-                      </p>
+                      <p className="text-2xl font-bold text-success">{formatCurrency(totalSpent)}</p>
                       <p className="text-xs text-muted-foreground">Total Spent</p>
                     </div>
                     <div className="text-center p-3 rounded-lg bg-muted/50">
-                      <p className="text-2xl font-bold">{mockPlayers.filter(p => p.status === 'upcoming').length}</p>
-                      <p className="text-xs text-muted-foreground">Remaining</p>
+                      <p className="text-2xl font-bold">{Math.max(totalSlots - soldPlayers, 0)}</p>
+                      <p className="text-xs text-muted-foreground">Slots Left</p>
                     </div>
                   </div>
                 </CardContent>
@@ -391,6 +752,20 @@ const LiveAuction = () => {
           </div>
         </div>
       </section>
+
+      {autoBidLot && biddingTeam && (
+        <AutoBidDialog
+          open={!!autoBidLot}
+          onOpenChange={(open) => !open && setAutoBidLot(null)}
+          teamId={biddingTeam.id}
+          teamName={biddingTeam.name}
+          playerId={autoBidLot.player_id}
+          playerName={profiles[autoBidLot.player_id]?.full_name || "Player"}
+          basePrice={autoBidLot.base_price}
+          currentMax={autoBids[autoBidLot.player_id]}
+          onSaved={fetchAutoBids}
+        />
+      )}
     </Layout>
   );
 };
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { Card, CardContent } from "@/components/ui/card";
@@ -11,13 +11,34 @@ import {
   Circle, 
   Timer,
   TrendingUp,
-  Trophy
+  Trophy,
+  Loader2
 } from "lucide-react";
-import { mockTournaments, getCategoryLabel, getBallTypeLabel } from "@/data/mockData";
+import { getCategoryLabel, getBallTypeLabel } from "@/data/mockData";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 
 const LiveAuctions = () => {
-  const liveAuctions = useMemo(() => {
-    return mockTournaments.filter((t) => t.status === 'auction');
+  const [liveAuctions, setLiveAuctions] = useState<Tables<"tournaments">[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLiveAuctions = async () => {
+      const { data, error } = await supabase
+        .from("tournaments")
+        .select("*")
+        .eq("is_auction_live", true)
+        .order("start_date", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching live auctions:", error);
+      } else {
+        setLiveAuctions(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchLiveAuctions();
   }, []);
 
   return (
@@ -45,7 +66,11 @@ const LiveAuctions = () => {
       {/* Content */}
       <section className="py-8 md:py-12">
         <div className="container">
-          {liveAuctions.length > 0 ? (
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : liveAuctions.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {liveAuctions.map((auction, index) => (
                 <Card 
@@ -101,28 +126,28 @@ const LiveAuctions = () => {
                         <div className="flex items-center justify-center gap-1 text-primary mb-1">
                           <Users className="h-4 w-4" />
                         </div>
-                        <p className="text-lg font-bold">{auction.teams_count || auction.total_teams}</p>
+                        <p className="text-lg font-bold">{auction.number_of_teams}</p>
                         <p className="text-xs text-muted-foreground">Teams</p>
                       </div>
                       <div className="bg-muted/50 rounded-lg p-3 text-center">
                         <div className="flex items-center justify-center gap-1 text-accent mb-1">
                           <TrendingUp className="h-4 w-4" />
                         </div>
-                        <p className="text-lg font-bold">{auction.players_count || 0}</p>
-                        <p className="text-xs text-muted-foreground">Players</p>
+                        <p className="text-lg font-bold">{auction.players_per_team}</p>
+                        <p className="text-xs text-muted-foreground">Players/Team</p>
                       </div>
                     </div>
 
                     {/* Location */}
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <MapPin className="h-4 w-4 text-primary" />
-                      <span>{auction.ground.city}, {auction.ground.state}</span>
+                      <span>{auction.venue_city}, {auction.venue_state}</span>
                     </div>
 
                     {/* Organizer */}
                     <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2 border-t border-border">
                       <Trophy className="h-3 w-3" />
-                      <span>Organized by {auction.organizer_name}</span>
+                      <span>Organized by {auction.organizer_name || "Organizer"}</span>
                     </div>
 
                     {/* Action Button */}
@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Loader2,
+  ArrowLeft,
+  Bot,
+  Gavel,
+  Timer,
+  Play,
+  SkipForward,
+  RotateCcw,
+  FlaskConical,
+} from "lucide-react";
+import { usePracticeAuction, type PracticeBotSetup } from "@/hooks/use-practice-auction";
+import {
+  formatCurrency,
+  getCategoryBadgeColor,
+  getInitials,
+  getPlayerCategoryLabel,
+  getPlayerTypeLabel,
+} from "@/lib/auction";
+import { botStrategyLabels, type BotStrategy } from "@/lib/practice-auction";
+
+const grades = ["a_plus", "a", "b", "c"] as const;
+
+export default function PracticeAuction() {
+  const { id: tournamentId } = useParams();
+  const {
+    loading,
+    tournament,
+    sourceTeams,
+    sourceLots,
+    categories,
+    profiles,
+    session,
+    myTeam,
+    myMaxBid,
+    currentLot,
+    highestBid,
+    nextBidAmount,
+    canBid,
+    timeLeft,
+    startSession,
+    endSession,
+    nominateNext,
+    placeBid,
+  } = usePracticeAuction(tournamentId);
+
+  const [myTeamId, setMyTeamId] = useState("");
+  const [botSetup, setBotSetup] = useState<Record<string, PracticeBotSetup>>({});
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Categories from auction_config if the organizer set any, else player grades
+  const focusOptions =
+    categories.length > 0
+      ? categories.map((c) => ({ value: c.category, label: c.category }))
+      : grades.map((g) => ({ value: g, label: getPlayerCategoryLabel(g) }));
+
+  const updateBot = (teamId: string, patch: Partial<PracticeBotSetup>) => {
+    setBotSetup((prev) => ({
+      ...prev,
+      [teamId]: { bot: "budget_conscious", focusCategory: null, ...prev[teamId], ...patch },
+    }));
+  };
+
+  const playerName = (id: string) => profiles[id]?.full_name || "Player";
+  const teamName = (id: string | null | undefined) =>
+    session?.teams.find((t) => t.id === id)?.name || "Team";
+  const upcomingCount = session?.lots.filter((lot) => lot.status === "upcoming").length ?? 0;
+  const finishedLots = session?.lots.filter((lot) => lot.status !== "upcoming") ?? [];
+  const currentProfile = currentLot ? profiles[currentLot.player_id] : undefined;
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/tournaments/${tournamentId}`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-muted-foreground">Practice Auction</span>
+                <Badge variant="secondary">Sandbox</Badge>
+              </div>
+            </div>
+          </div>
+          {session && (
+            <Button variant="outline" onClick={endSession}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              End Practice
+            </Button>
+          )}
+        </div>
+
+        {!session ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FlaskConical className="h-5 w-5 text-primary" />
+                Set Up Practice
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Rehearse the auction with a copy of this tournament's teams, pool and
+                categories. You play one team and bots play the rest. Nothing here touches the
+                real purses or squads.
+              </p>
+
+              {sourceTeams.length < 2 || sourceLots.length === 0 ? (
+                <p className="text-sm text-center py-6">
+                  {sourceTeams.length < 2
+                    ? "Practice needs at least two teams."
+                    : "There are no players left in the auction pool to practice with."}
+                </p>
+              ) : (
+                <>
+                  <div className="space-y-2 max-w-sm">
+                    <Label>Your Team</Label>
+                    <Select value={myTeamId} onValueChange={setMyTeamId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose the team you'll play" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sourceTeams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Team</TableHead>
+                        <TableHead>Purse</TableHead>
+                        <TableHead>Bot Strategy</TableHead>
+                        <TableHead>Focus</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sourceTeams.map((team) => {
+                        const setup = botSetup[team.id];
+                        const strategy = setup?.bot ?? "budget_conscious";
+                        return (
+                          <TableRow key={team.id}>
+                            <TableCell className="font-medium">{team.name}</TableCell>
+                            <TableCell>{formatCurrency(team.budget)}</TableCell>
+                            {team.id === myTeamId ? (
+                              <TableCell colSpan={2} className="text-muted-foreground">
+                                You
+                              </TableCell>
+                            ) : (
+                              <>
+                                <TableCell>
+                                  <Select
+                                    value={strategy}
+                                    onValueChange={(value) =>
+                                      updateBot(team.id, { bot: value as BotStrategy })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-48">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {(Object.keys(botStrategyLabels) as BotStrategy[]).map((s) => (
+                                        <SelectItem key={s} value={s}>
+                                          {botStrategyLabels[s]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                                <TableCell>
+                                  {strategy === "category_focused" && (
+                                    <Select
+                                      value={setup?.focusCategory ?? ""}
+                                      onValueChange={(value) =>
+                                        updateBot(team.id, { focusCategory: value })
+                                      }
+                                    >
+                                      <SelectTrigger className="w-40">
+                                        <SelectValue placeholder="Category" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {focusOptions.map((option) => (
+                                          <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  )}
+                                </TableCell>
+                              </>
+                            )}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+
+                  <Button onClick={() => startSession(myTeamId, botSetup)} disabled={!myTeamId}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Start Practice
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Current Lot */}
+              {currentLot ? (
+                <Card className="border-2 border-live overflow-hidden">
+                  <div className="bg-live text-live-foreground px-4 py-2 flex items-center justify-between">
+                    <span className="font-semibold flex items-center gap-2">
+                      <Gavel className="h-4 w-4" />
+                      Under the Hammer
+                    </span>
+                    {timeLeft !== null && (
+                      <div className="flex items-center gap-2">
+                        <Timer className="h-4 w-4" />
+                        <span className="font-mono text-xl font-bold">{timeLeft}s</span>
+                      </div>
+                    )}
+                  </div>
+                  <CardContent className="p-6 space-y-6">
+                    <div className="flex flex-col md:flex-row gap-6">
+                      <div className="flex items-center gap-4 flex-1">
+                        <Avatar className="h-20 w-20 border-4 border-primary">
+                          <AvatarImage src={currentProfile?.avatar_url || undefined} />
+                          <AvatarFallback className="text-xl bg-primary text-primary-foreground">
+                            {getInitials(playerName(currentLot.player_id))}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <h2 className="text-2xl font-display font-bold">
+                            {playerName(currentLot.player_id)}
+                          </h2>
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            <Badge variant="outline">
+                              {getPlayerTypeLabel(currentProfile?.player_type ?? null)}
+                            </Badge>
+                            {currentLot.player_category && (
+                              <Badge className={getCategoryBadgeColor(currentLot.player_category)}>
+                                {getPlayerCategoryLabel(currentLot.player_category)}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-2">
+                            Base price {formatCurrency(currentLot.base_price)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="bg-gradient-to-br from-accent/10 to-primary/10 rounded-xl p-6 text-center min-w-[200px]">
+                        <p className="text-sm text-muted-foreground mb-1">Current Bid</p>
+                        <p className="text-4xl font-display font-bold text-primary">
+                          {highestBid ? formatCurrency(highestBid.amount) : "—"}
+                        </p>
+                        <p className="text-sm font-medium mt-2">
+                          {highestBid ? teamName(highestBid.team_id) : "No bids yet"}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="pt-6 border-t flex flex-col sm:flex-row gap-3 sm:items-center">
+                      <Button
+                        size="lg"
+                        className="flex-1 bg-live text-live-foreground hover:bg-live/90"
+                        onClick={placeBid}
+                        disabled={!canBid}
+                      >
+                        <Gavel className="h-5 w-5 mr-2" />
+                        Bid {formatCurrency(nextBidAmount)}
+                      </Button>
+                      <p className="text-xs text-muted-foreground sm:w-40">
+                        {myTeam?.name} can bid up to {formatCurrency(myMaxBid)}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center space-y-4">
+                    <Gavel className="h-10 w-10 text-muted-foreground mx-auto" />
+                    {upcomingCount > 0 ? (
+                      <>
+                        <p className="font-medium">{upcomingCount} players left in the pool</p>
+                        <Button onClick={nominateNext}>
+                          <SkipForward className="h-4 w-4 mr-2" />
+                          Next Player
+                        </Button>
+                      </>
+                    ) : (
+                      <p className="font-medium">
+                        Practice complete. End it to start over with fresh purses.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Results */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Results</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {finishedLots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No players have gone under the hammer yet.
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Player</TableHead>
+                          <TableHead>Team</TableHead>
+                          <TableHead className="text-right">Price</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {finishedLots.map((lot) => (
+                          <TableRow key={lot.player_id}>
+                            <TableCell className="font-medium">{playerName(lot.player_id)}</TableCell>
+                            <TableCell>
+                              {lot.status === "sold" ? teamName(lot.sold_team_id) : "Unsold"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {lot.sold_price !== null ? formatCurrency(lot.sold_price) : "—"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Teams */}
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle>Teams</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {session.teams.map((team) => (
+                  <div
+                    key={team.id}
+                    className={`p-3 rounded-lg border ${team.id === myTeam?.id ? "border-primary bg-primary/5" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{team.name}</span>
+                      {team.bot ? (
+                        <Badge variant="secondary" className="gap-1">
+                          <Bot className="h-3 w-3" />
+                          {botStrategyLabels[team.bot]}
+                        </Badge>
+                      ) : (
+                        <Badge>You</Badge>
+                      )}
+                    </div>
+                    <div className="flex justify-between text-sm text-muted-foreground mt-1">
+                      <span>{formatCurrency(team.budget)} left</span>
+                      <span>
+                        {team.squad.length}/{tournament.players_per_team} players
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
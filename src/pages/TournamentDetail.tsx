@@ -17,7 +17,13 @@ import {
   Gavel,
   UserPlus,
   Pencil,
-  Loader2
+  Loader2,
+  ListOrdered,
+  FlaskConical,
+  FileSpreadsheet,
+  History,
+  BarChart3,
+  ArrowLeftRight
 } from "lucide-react";
 import { 
   getCategoryLabel, 
@@ -319,9 +325,71 @@ const TournamentDetail = () => {
                   )}
 
                   {isAuction && (
-                    <Button className="w-full bg-live text-live-foreground hover:bg-live/90" size="lg">
-                      <Gavel className="h-5 w-5 mr-2" />
-                      Join Auction Room
+                    <Button asChild className="w-full bg-live text-live-foreground hover:bg-live/90" size="lg">
+                      <Link to={`/auctions/${tournament.id}`}>
+                        <Gavel className="h-5 w-5 mr-2" />
+                        Join Auction Room
+                      </Link>
+                    </Button>
+                  )}
+
+                  {!isAuction &&
+                    (tournament.tournament_type === "Auction" ||
+                      tournament.tournament_type === "Auction with Voting") && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/practice`}>
+                        <FlaskConical className="h-5 w-5 mr-2" />
+                        Practice Auction
+                      </Link>
+                    </Button>
+                  )}
+
+                  {tournament.tournament_type === "Draft" && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/draft`}>
+                        <ListOrdered className="h-5 w-5 mr-2" />
+                        Draft Board
+                      </Link>
+                    </Button>
+                  )}
+
+                  {teamsCount > 0 && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/results`}>
+                        <FileSpreadsheet className="h-5 w-5 mr-2" />
+                        Auction Results
+                      </Link>
+                    </Button>
+                  )}
+
+                  {teamsCount > 0 &&
+                    tournament.tournament_type !== "Normal" &&
+                    tournament.tournament_type !== "Draft" && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/replay`}>
+                        <History className="h-5 w-5 mr-2" />
+                        Auction Replay
+                      </Link>
+                    </Button>
+                  )}
+
+                  {teamsCount > 0 &&
+                    tournament.tournament_type !== "Normal" &&
+                    tournament.tournament_type !== "Draft" && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/analytics`}>
+                        <BarChart3 className="h-5 w-5 mr-2" />
+                        Auction Analytics
+                      </Link>
+                    </Button>
+                  )}
+
+                  {teamsCount > 0 && tournament.trade_window_opens_at && (
+                    <Button asChild variant="outline" className="w-full" size="lg">
+                      <Link to={`/tournaments/${tournament.id}/trades`}>
+                        <ArrowLeftRight className="h-5 w-5 mr-2" />
+                        Trades
+                      </Link>
                     </Button>
                   )}
 
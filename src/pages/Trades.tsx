@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ProposeTradeDialog } from "@/components/tournaments/ProposeTradeDialog";
+import { Loader2, ArrowLeft, ArrowLeftRight, Check, X, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency, getAuctionErrorToast } from "@/lib/auction";
+import {
+  getTradeCashPayerId,
+  getTradeStatusBadgeColor,
+  getTradeStatusLabel,
+  isTradeOpen,
+  isTradeWindowOpen,
+  type TradeSquadPlayer,
+  type TradeTeam,
+} from "@/lib/trades";
+
+type Trade = Tables<"trades">;
+
+export default function Trades() {
+  const { id: tournamentId } = useParams();
+  const { user } = useAuth();
+  const [tournament, setTournament] = useState<Tables<"tournaments"> | null>(null);
+  const [teams, setTeams] = useState<TradeTeam[]>([]);
+  const [squads, setSquads] = useState<TradeSquadPlayer[]>([]);
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [actingId, setActingId] = useState<string | null>(null);
+  const [proposeOpen, setProposeOpen] = useState(false);
+
+  const fetchTrades = useCallback(async () => {
+    if (!tournamentId) return;
+
+    const [tournamentRes, teamsRes, tradesRes] = await Promise.all([
+      supabase.from("tournaments").select("*").eq("id", tournamentId).maybeSingle(),
+      supabase
+        .from("teams")
+        .select("id, name, owner_id, budget_remaining")
+        .eq("tournament_id", tournamentId)
+        .order("name", { ascending: true }),
+      supabase
+        .from("trades")
+        .select("*")
+        .eq("tournament_id", tournamentId)
+        .order("created_at", { ascending: false }),
+    ]);
+
+    const teamIds = (teamsRes.data || []).map((t) => t.id);
+    const { data: squadData } =
+      teamIds.length > 0
+        ? await supabase
+            .from("team_players")
+            .select("team_id, player_id, sold_price")
+            .in("team_id", teamIds)
+            .order("sold_at", { ascending: true })
+        : { data: [] };
+
+    // Traded players may have moved on since, so look up names for both
+    const playerIds = [
+      ...(squadData || []).map((s) => s.player_id),
+      ...(tradesRes.data || []).flatMap((t) => [t.offered_player_id, t.requested_player_id]),
+    ].filter((id): id is string => !!id);
+    const { data: profiles } =
+      playerIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", [...new Set(playerIds)])
+        : { data: [] };
+
+    setTournament(tournamentRes.data);
+    setTeams(teamsRes.data || []);
+    setSquads(squadData || []);
+    setTrades(tradesRes.data || []);
+    setNames(Object.fromEntries((profiles || []).map((p) => [p.user_id, p.full_name])));
+    setLoading(false);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    fetchTrades();
+  }, [fetchTrades]);
+
+  const runAction = async (
+    tradeId: string,
+    action: () => PromiseLike<{ error: { message: string; hint?: string | null } | null }>,
+    success: { title: string; description: string }
+  ) => {
+    setActingId(tradeId);
+    const { error } = await action();
+    setActingId(null);
+
+    if (error) {
+      toast({ ...getAuctionErrorToast(error, "Failed to update trade."), variant: "destructive" });
+      return;
+    }
+    toast(success);
+    fetchTrades();
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Layout>
+        <div className="container py-12 text-center">
+          <p className="text-muted-foreground">Tournament not found.</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isOrganizer = user?.id === tournament.organizer_id;
+  const myTeams = teams.filter((t) => user && t.owner_id === user.id);
+  const myTeamIds = myTeams.map((t) => t.id);
+  const teamName = (id: string) => teams.find((t) => t.id === id)?.name || "Team";
+  const windowOpen = isTradeWindowOpen(tournament);
+
+  const renderSide = (teamId: string, playerId: string | null, cash: number) => (
+    <div className="flex-1 p-3 rounded-lg bg-muted/50">
+      <p className="text-xs text-muted-foreground mb-1">{teamName(teamId)} gives</p>
+      <p className="font-medium">
+        {playerId ? names[playerId] || "Player" : formatCurrency(cash)}
+      </p>
+      {playerId && cash > 0 && (
+        <p className="text-xs text-muted-foreground">+ {formatCurrency(cash)}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Layout>
+      <div className="container py-8 space-y-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/tournaments/${tournamentId}`}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="font-display text-3xl font-bold">{tournament.name}</h1>
+              <p className="text-muted-foreground mt-1">Trades</p>
+            </div>
+          </div>
+          {myTeams.length > 0 && (
+            <Button onClick={() => setProposeOpen(true)} disabled={!windowOpen}>
+              <Plus className="h-4 w-4 mr-2" />
+              Propose Trade
+            </Button>
+          )}
+        </div>
+
+        {/* Window */}
+        <Card>
+          <CardContent className="pt-6 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">
+                Trade window {windowOpen ? "open" : "closed"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {tournament.trade_window_opens_at && tournament.trade_window_closes_at
+                  ? `${new Date(tournament.trade_window_opens_at).toLocaleString()} – ${new Date(tournament.trade_window_closes_at).toLocaleString()}`
+                  : "The organizer hasn't set a trade window yet."}
+                {tournament.is_auction_live && " Trading is paused while the auction is live."}
+              </p>
+            </div>
+            <Badge className={windowOpen ? "bg-success text-success-foreground" : "bg-muted text-muted-foreground"}>
+              {windowOpen ? "Open" : "Closed"}
+            </Badge>
+          </CardContent>
+        </Card>
+
+        {/* Trades */}
+        {trades.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <ArrowLeftRight className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <p className="font-medium">No trades yet</p>
+              <p className="text-sm text-muted-foreground">
+                {isOrganizer || myTeams.length > 0
+                  ? "Trades your teams make will show up here."
+                  : "Only team owners and the organizer can see trades."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {trades.map((trade) => {
+              const payerId = getTradeCashPayerId(trade);
+              const acting = actingId === trade.id;
+              const canRespond = trade.status === "proposed" && myTeamIds.includes(trade.receiving_team_id);
+              const canCancel = isTradeOpen(trade) && myTeamIds.includes(trade.proposing_team_id);
+              const canDecide = trade.status === "accepted" && isOrganizer;
+              return (
+                <Card key={trade.id}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="flex items-center justify-between text-base">
+                      <span>
+                        {teamName(trade.proposing_team_id)} → {teamName(trade.receiving_team_id)}
+                      </span>
+                      <Badge className={getTradeStatusBadgeColor(trade.status)}>
+                        {getTradeStatusLabel(trade.status)}
+                      </Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center gap-3">
+                      {renderSide(
+                        trade.proposing_team_id,
+                        trade.offered_player_id,
+                        payerId === trade.proposing_team_id ? trade.cash_amount : 0
+                      )}
+                      <ArrowLeftRight className="h-5 w-5 text-muted-foreground shrink-0" />
+                      {renderSide(
+                        trade.receiving_team_id,
+                        trade.requested_player_id,
+                        payerId === trade.receiving_team_id ? trade.cash_amount : 0
+                      )}
+                    </div>
+
+                    {trade.message && (
+                      <p className="text-sm text-muted-foreground italic">“{trade.message}”</p>
+                    )}
+
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(trade.created_at).toLocaleString()}
+                      </span>
+                      <div className="flex gap-2">
+                        {canRespond && (
+                          <>
+                            <Button
+                              size="sm"
+                              disabled={acting}
+                              onClick={() =>
+                                runAction(
+                                  trade.id,
+                                  () => supabase.rpc("respond_to_trade", { _trade_id: trade.id, _accept: true }),
+                                  { title: "Trade Accepted", description: "The organizer has been asked to approve it." }
+                                )
+                              }
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={acting}
+                              onClick={() =>
+                                runAction(
+                                  trade.id,
+                                  () => supabase.rpc("respond_to_trade", { _trade_id: trade.id, _accept: false }),
+                                  { title: "Trade Declined", description: "The offer has been turned down." }
+                                )
+                              }
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Decline
+                            </Button>
+                          </>
+                        )}
+                        {canDecide && (
+                          <>
+                            <Button
+                              size="sm"
+                              disabled={acting}
+                              onClick={() =>
+                                runAction(
+                                  trade.id,
+                                  () => supabase.rpc("decide_trade", { _trade_id: trade.id, _approve: true }),
+                                  { title: "Trade Approved", description: "Squads and purses have been updated." }
+                                )
+                              }
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={acting}
+                              onClick={() =>
+                                runAction(
+                                  trade.id,
+                                  () => supabase.rpc("decide_trade", { _trade_id: trade.id, _approve: false }),
+                                  { title: "Trade Rejected", description: "Both owners will see the trade as rejected." }
+                                )
+                              }
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {canCancel && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive"
+                            disabled={acting}
+                            onClick={() =>
+                              runAction(
+                                trade.id,
+                                () => supabase.rpc("cancel_trade", { _trade_id: trade.id }),
+                                { title: "Trade Cancelled", description: "Your offer has been withdrawn." }
+                              )
+                            }
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {proposeOpen && (
+        <ProposeTradeDialog
+          open={proposeOpen}
+          onOpenChange={setProposeOpen}
+          myTeams={myTeams}
+          teams={teams}
+          squads={squads}
+          names={names}
+          onProposed={fetchTrades}
+        />
+      )}
+    </Layout>
+  );
+}
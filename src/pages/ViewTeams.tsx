@@ -3,14 +3,18 @@ import { useParams, Link } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, Users, ArrowLeft } from "lucide-react";
+import { Loader2, Users, ArrowLeft, UserCheck, Wallet } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { TeamRetentionModal } from "@/components/tournaments/TeamRetentionModal";
+import { PurseLedgerModal } from "@/components/tournaments/PurseLedgerModal";
 
 interface Tournament {
   id: string;
   name: string;
   number_of_teams: number;
+  organizer_id: string;
 }
 
 interface Team {
@@ -18,14 +22,19 @@ interface Team {
   name: string;
   logo_url: string | null;
   captain_id: string | null;
+  owner_id: string | null;
   budget_remaining: number;
 }
 
 export default function ViewTeams() {
   const { id: tournamentId } = useParams();
+  const { user } = useAuth();
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(true);
+  const [retentionTeam, setRetentionTeam] = useState<Team | null>(null);
+  // Looked up by id so the purse shown stays current after an adjustment
+  const [ledgerTeamId, setLedgerTeamId] = useState<string | null>(null);
 
   useEffect(() => {
     if (tournamentId) {
@@ -38,7 +47,7 @@ export default function ViewTeams() {
     try {
       const { data: tournamentData, error: tournamentError } = await supabase
         .from("tournaments")
-        .select("id, name, number_of_teams")
+        .select("id, name, number_of_teams, organizer_id")
         .eq("id", tournamentId)
         .single();
 
@@ -64,6 +73,19 @@ export default function ViewTeams() {
     }
   };
 
+  // Refresh purses after a retention or adjustment without blanking the page
+  const refreshTeams = async () => {
+    const { data } = await supabase
+      .from("teams")
+      .select("*")
+      .eq("tournament_id", tournamentId)
+      .order("created_at", { ascending: true });
+
+    if (data) setTeams(data);
+  };
+
+  const ledgerTeam = teams.find((t) => t.id === ledgerTeamId);
+
   if (loading) {
     return (
       <Layout>
@@ -121,12 +143,55 @@ export default function ViewTeams() {
                       </p>
                     </div>
                   </div>
+                  {user && team.owner_id === user.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full mt-4"
+                      onClick={() => setRetentionTeam(team)}
+                    >
+                      <UserCheck className="h-4 w-4 mr-2" />
+                      Retain Players
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full mt-2"
+                    onClick={() => setLedgerTeamId(team.id)}
+                  >
+                    <Wallet className="h-4 w-4 mr-2" />
+                    Purse Ledger
+                  </Button>
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
       </div>
+
+      {retentionTeam && tournamentId && (
+        <TeamRetentionModal
+          open={!!retentionTeam}
+          onOpenChange={(open) => !open && setRetentionTeam(null)}
+          tournamentId={tournamentId}
+          teamId={retentionTeam.id}
+          teamName={retentionTeam.name}
+          onChanged={refreshTeams}
+        />
+      )}
+
+      {ledgerTeam && (
+        <PurseLedgerModal
+          open={!!ledgerTeam}
+          onOpenChange={(open) => !open && setLedgerTeamId(null)}
+          teamId={ledgerTeam.id}
+          teamName={ledgerTeam.name}
+          budgetRemaining={ledgerTeam.budget_remaining}
+          canAdjust={!!user && user.id === tournament?.organizer_id}
+          onChanged={refreshTeams}
+        />
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,135 @@
+-- Create auction_state table holding the lot currently under the hammer
+CREATE TABLE public.auction_state (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE UNIQUE,
+  current_player_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  lot_base_price NUMERIC NOT NULL DEFAULT 0,
+  is_bidding_open BOOLEAN NOT NULL DEFAULT false,
+  lot_opened_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.auction_state ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for auction_state
+CREATE POLICY "Auction state viewable by everyone"
+ON public.auction_state FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can manage auction state"
+ON public.auction_state FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = auction_state.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+CREATE TRIGGER update_auction_state_updated_at
+BEFORE UPDATE ON public.auction_state
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Bids may only be written through place_bid, which validates them
+DROP POLICY "Team owners can place bids" ON public.auction_bids;
+
+-- Place a bid on the open lot. Every rule is checked while holding a lock on
+-- the tournament's auction_state row, so concurrent bids are applied one at a
+-- time and the first valid bid wins. Failures raise one of the codes below as
+-- the exception message, with a human readable HINT:
+--   AUCTION_NOT_LIVE, LOT_NOT_OPEN, NOT_TEAM_OWNER, ALREADY_HIGHEST_BIDDER,
+--   BID_TOO_LOW, INSUFFICIENT_PURSE, BID_WINDOW_CLOSED
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _last_activity TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL AND _amount <= _highest.bid_amount THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The bid must be higher than %s.', _highest.bid_amount);
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _last_activity := GREATEST(_state.lot_opened_at, _highest.bid_at);
+
+  IF now() > _last_activity + make_interval(secs => COALESCE(_bid_time, 10)) THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  RETURN _bid;
+END;
+$$;
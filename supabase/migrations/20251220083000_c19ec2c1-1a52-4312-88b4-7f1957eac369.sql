@@ -0,0 +1,19 @@
+-- Broadcast auction room changes over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.auction_state;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.auction_bids;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.auction_timer;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.teams;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.team_players;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tournaments;
+
+-- Deleted team_players rows must still carry team_id for subscribers
+ALTER TABLE public.team_players REPLICA IDENTITY FULL;
+
+-- Lets clients line their countdown up with the database clock
+CREATE OR REPLACE FUNCTION public.server_now()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT now()
+$$;
@@ -0,0 +1,320 @@
+-- Track when bidding was last (re)opened so closing and reopening a lot
+-- restarts the countdown without discarding earlier bids on it
+ALTER TABLE public.auction_state
+ADD COLUMN bidding_opened_at TIMESTAMP WITH TIME ZONE;
+
+-- Check whether the user organizes the given tournament
+CREATE OR REPLACE FUNCTION public.is_tournament_organizer(_tournament_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tournaments
+    WHERE id = _tournament_id
+      AND organizer_id = _user_id
+  )
+$$;
+
+-- Single entry point for every change to a team's purse. _kind labels the
+-- movement ('sale', ...) so callers describe why the money moved.
+CREATE OR REPLACE FUNCTION public.adjust_team_budget(_team_id UUID, _delta NUMERIC, _kind TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _remaining NUMERIC;
+BEGIN
+  UPDATE public.teams
+  SET budget_remaining = budget_remaining + _delta
+  WHERE id = _team_id
+  RETURNING budget_remaining INTO _remaining;
+
+  IF _remaining < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('This %s would leave the team with %s.', _kind, _remaining);
+  END IF;
+
+  RETURN _remaining;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_team_budget(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Put a player under the hammer. Bidding stays closed until open_bidding.
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  _tournament_id UUID,
+  _player_id UUID,
+  _base_price NUMERIC
+)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Close bidding on the current player first.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.team_players tp
+    JOIN public.teams tm ON tm.id = tp.team_id
+    WHERE tm.tournament_id = _tournament_id
+      AND tp.player_id = _player_id
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_SOLD'
+      USING HINT = 'This player already belongs to a team.';
+  END IF;
+
+  INSERT INTO public.auction_state (
+    tournament_id, current_player_id, lot_base_price,
+    is_bidding_open, lot_opened_at, bidding_opened_at
+  )
+  VALUES (_tournament_id, _player_id, _base_price, false, NULL, NULL)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_player_id = EXCLUDED.current_player_id,
+      lot_base_price = EXCLUDED.lot_base_price,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Open or close bidding on the nominated player
+CREATE OR REPLACE FUNCTION public.set_bidding_open(_tournament_id UUID, _open BOOLEAN)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  UPDATE public.auction_state
+  SET is_bidding_open = _open,
+      lot_opened_at = COALESCE(lot_opened_at, now()),
+      bidding_opened_at = CASE WHEN _open THEN now() ELSE bidding_opened_at END
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Sell the current player to the highest bidder
+CREATE OR REPLACE FUNCTION public.hammer_lot(_tournament_id UUID)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _sold public.team_players;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'Nobody has bid on this player. Mark them unsold instead.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_highest.team_id, _highest.player_id, _highest.bid_amount)
+  RETURNING * INTO _sold;
+
+  PERFORM public.adjust_team_budget(_highest.team_id, -_highest.bid_amount, 'sale');
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  WHERE id = _state.id;
+
+  RETURN _sold;
+END;
+$$;
+
+-- Pass on the current player without a sale
+CREATE OR REPLACE FUNCTION public.mark_lot_unsold(_tournament_id UUID)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  WHERE tournament_id = _tournament_id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- The countdown restarts whenever bidding is reopened
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _last_activity TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL AND _amount <= _highest.bid_amount THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The bid must be higher than %s.', _highest.bid_amount);
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _last_activity := GREATEST(_state.bidding_opened_at, _highest.bid_at);
+
+  IF now() > _last_activity + make_interval(secs => COALESCE(_bid_time, 10)) THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  RETURN _bid;
+END;
+$$;
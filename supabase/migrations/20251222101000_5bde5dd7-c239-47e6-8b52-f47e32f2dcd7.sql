@@ -0,0 +1,274 @@
+-- Create auction_pool table: the lots for a tournament's auction, snapshotted
+-- from approved applications. status is one of upcoming, bidding, sold, unsold.
+CREATE TABLE public.auction_pool (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  player_type public.player_type,
+  player_category public.player_category,
+  auction_category TEXT,
+  base_price NUMERIC NOT NULL DEFAULT 0,
+  lot_order INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'upcoming',
+  is_included BOOLEAN NOT NULL DEFAULT true,
+  sold_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  sold_price NUMERIC,
+  sold_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, player_id)
+);
+
+ALTER TABLE public.auction_pool ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for auction_pool
+CREATE POLICY "Auction pool viewable by everyone"
+ON public.auction_pool FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can manage auction pool"
+ON public.auction_pool FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = auction_pool.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+CREATE TRIGGER update_auction_pool_updated_at
+BEFORE UPDATE ON public.auction_pool
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.auction_pool;
+
+-- Add approved applicants who are not yet in the pool or on a team.
+-- Safe to run repeatedly; returns the number of players added.
+CREATE OR REPLACE FUNCTION public.build_auction_pool(_tournament_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _next_order INTEGER;
+  _added INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT COALESCE(MAX(lot_order), 0) INTO _next_order
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id;
+
+  INSERT INTO public.auction_pool (
+    tournament_id, player_id, player_type, player_category, base_price, lot_order
+  )
+  SELECT
+    _tournament_id,
+    ta.player_id,
+    p.player_type,
+    p.player_category,
+    t.base_price,
+    _next_order + ROW_NUMBER() OVER (ORDER BY p.player_category NULLS LAST, p.full_name)
+  FROM public.tournament_applications ta
+  JOIN public.tournaments t ON t.id = ta.tournament_id
+  LEFT JOIN public.profiles p ON p.user_id = ta.player_id
+  WHERE ta.tournament_id = _tournament_id
+    AND ta.status = 'approved'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.auction_pool ap
+      WHERE ap.tournament_id = _tournament_id AND ap.player_id = ta.player_id
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.team_players tp
+      JOIN public.teams tm ON tm.id = tp.team_id
+      WHERE tm.tournament_id = _tournament_id AND tp.player_id = ta.player_id
+    );
+
+  GET DIAGNOSTICS _added = ROW_COUNT;
+  RETURN _added;
+END;
+$$;
+
+-- Nominate from the pool. _base_price overrides the pool entry's base price.
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  _tournament_id UUID,
+  _player_id UUID,
+  _base_price NUMERIC DEFAULT NULL
+)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _lot public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Close bidding on the current player first.';
+  END IF;
+
+  SELECT * INTO _lot
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id AND player_id = _player_id
+  FOR UPDATE;
+
+  IF _lot.id IS NULL OR NOT _lot.is_included THEN
+    RAISE EXCEPTION 'PLAYER_NOT_IN_POOL'
+      USING HINT = 'Add this player to the auction pool first.';
+  END IF;
+
+  IF _lot.status = 'sold' THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_SOLD'
+      USING HINT = 'This player already belongs to a team.';
+  END IF;
+
+  -- A nominated player who never went to bidding returns to the queue
+  UPDATE public.auction_pool
+  SET status = 'upcoming'
+  WHERE tournament_id = _tournament_id
+    AND status = 'bidding'
+    AND player_id <> _player_id;
+
+  UPDATE public.auction_pool
+  SET status = 'bidding'
+  WHERE id = _lot.id;
+
+  INSERT INTO public.auction_state (
+    tournament_id, current_player_id, lot_base_price,
+    is_bidding_open, lot_opened_at, bidding_opened_at
+  )
+  VALUES (_tournament_id, _player_id, COALESCE(_base_price, _lot.base_price), false, NULL, NULL)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_player_id = EXCLUDED.current_player_id,
+      lot_base_price = EXCLUDED.lot_base_price,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Sell the current player to the highest bidder
+CREATE OR REPLACE FUNCTION public.hammer_lot(_tournament_id UUID)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _sold public.team_players;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'Nobody has bid on this player. Mark them unsold instead.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_highest.team_id, _highest.player_id, _highest.bid_amount)
+  RETURNING * INTO _sold;
+
+  PERFORM public.adjust_team_budget(_highest.team_id, -_highest.bid_amount, 'sale');
+
+  UPDATE public.auction_pool
+  SET status = 'sold',
+      sold_team_id = _highest.team_id,
+      sold_price = _highest.bid_amount,
+      sold_at = _sold.sold_at
+  WHERE tournament_id = _tournament_id
+    AND player_id = _highest.player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  WHERE id = _state.id;
+
+  RETURN _sold;
+END;
+$$;
+
+-- Pass on the current player without a sale
+CREATE OR REPLACE FUNCTION public.mark_lot_unsold(_tournament_id UUID)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  UPDATE public.auction_pool
+  SET status = 'unsold'
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
@@ -0,0 +1,190 @@
+-- Create bid_increments table: increment slabs for the "next bid" amount.
+-- A slab applies while the current bid is below up_to (NULL = no limit).
+-- auction_config_id NULL makes the ladder tournament-wide; a category's own
+-- ladder takes precedence over it.
+CREATE TABLE public.bid_increments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  auction_config_id UUID REFERENCES public.auction_config(id) ON DELETE CASCADE,
+  up_to NUMERIC,
+  increment NUMERIC NOT NULL CHECK (increment > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bid_increments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for bid_increments
+CREATE POLICY "Bid increments viewable by everyone"
+ON public.bid_increments FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can manage bid increments"
+ON public.bid_increments FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = bid_increments.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+CREATE TRIGGER update_bid_increments_updated_at
+BEFORE UPDATE ON public.bid_increments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bid_increments;
+
+-- Increment required on top of _amount for the given player's lot. Falls back
+-- to the highest slab past the top of the ladder, and to 1000 with no ladder.
+CREATE OR REPLACE FUNCTION public.get_bid_increment(
+  _tournament_id UUID,
+  _player_id UUID,
+  _amount NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _config_id UUID;
+  _increment NUMERIC;
+BEGIN
+  SELECT ac.id INTO _config_id
+  FROM public.auction_pool ap
+  JOIN public.auction_config ac
+    ON ac.tournament_id = ap.tournament_id
+   AND ac.category = ap.auction_category
+  WHERE ap.tournament_id = _tournament_id
+    AND ap.player_id = _player_id
+  LIMIT 1;
+
+  IF _config_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.bid_increments WHERE auction_config_id = _config_id
+  ) THEN
+    _config_id := NULL;
+  END IF;
+
+  SELECT increment INTO _increment
+  FROM public.bid_increments
+  WHERE tournament_id = _tournament_id
+    AND auction_config_id IS NOT DISTINCT FROM _config_id
+    AND (up_to IS NULL OR _amount < up_to)
+  ORDER BY up_to ASC NULLS LAST
+  LIMIT 1;
+
+  IF _increment IS NULL THEN
+    SELECT increment INTO _increment
+    FROM public.bid_increments
+    WHERE tournament_id = _tournament_id
+      AND auction_config_id IS NOT DISTINCT FROM _config_id
+    ORDER BY up_to DESC NULLS FIRST
+    LIMIT 1;
+  END IF;
+
+  RETURN COALESCE(_increment, 1000);
+END;
+$$;
+
+-- Raises must follow the increment ladder
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _last_activity TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _last_activity := GREATEST(_state.bidding_opened_at, _highest.bid_at);
+
+  IF now() > _last_activity + make_interval(secs => COALESCE(_bid_time, 10)) THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  RETURN _bid;
+END;
+$$;
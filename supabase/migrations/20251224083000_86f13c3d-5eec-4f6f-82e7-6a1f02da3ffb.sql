@@ -0,0 +1,172 @@
+-- Cheapest price a team must keep aside for each empty squad slot: the lowest
+-- active category base price, else the tournament base price
+CREATE OR REPLACE FUNCTION public.get_slot_reserve_price(_tournament_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT MIN(base_price) FROM public.auction_config
+     WHERE tournament_id = _tournament_id AND is_active = true),
+    (SELECT base_price FROM public.tournaments WHERE id = _tournament_id),
+    0
+  )
+$$;
+
+-- Most a team can spend on its next player while still affording the
+-- reserve price for every other empty slot. Zero once the squad is full.
+CREATE OR REPLACE FUNCTION public.get_team_max_bid(_team_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _players_per_team INTEGER;
+  _squad_size INTEGER;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _team_id;
+
+  IF _team.id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT players_per_team INTO _players_per_team
+  FROM public.tournaments
+  WHERE id = _team.tournament_id;
+
+  SELECT COUNT(*) INTO _squad_size
+  FROM public.team_players
+  WHERE team_id = _team_id;
+
+  IF _squad_size >= _players_per_team THEN
+    RETURN 0;
+  END IF;
+
+  RETURN GREATEST(
+    _team.budget_remaining
+      - (_players_per_team - _squad_size - 1) * public.get_slot_reserve_price(_team.tournament_id),
+    0
+  );
+END;
+$$;
+
+-- Bids may not eat into the purse reserved for the rest of the squad
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _max_amount NUMERIC;
+  _last_activity TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _last_activity := GREATEST(_state.bidding_opened_at, _highest.bid_at);
+
+  IF now() > _last_activity + make_interval(secs => COALESCE(_bid_time, 10)) THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  RETURN _bid;
+END;
+$$;
@@ -0,0 +1,284 @@
+-- Create squad_rules table: organizer-defined limits on squad composition.
+-- rule_type is 'player_type' or 'player_category'; target is the enum value.
+CREATE TABLE public.squad_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('player_type', 'player_category')),
+  target TEXT NOT NULL,
+  min_count INTEGER CHECK (min_count >= 0),
+  max_count INTEGER CHECK (max_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, rule_type, target),
+  CHECK (min_count IS NOT NULL OR max_count IS NOT NULL)
+);
+
+ALTER TABLE public.squad_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for squad_rules
+CREATE POLICY "Squad rules viewable by everyone"
+ON public.squad_rules FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can manage squad rules"
+ON public.squad_rules FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = squad_rules.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+CREATE TRIGGER update_squad_rules_updated_at
+BEFORE UPDATE ON public.squad_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Role, grade and auction category of every player on a team
+CREATE OR REPLACE FUNCTION public.get_team_squad(_team_id UUID)
+RETURNS TABLE (player_type TEXT, player_category TEXT, auction_category TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    COALESCE(ap.player_type, p.player_type)::TEXT,
+    COALESCE(ap.player_category, p.player_category)::TEXT,
+    ap.auction_category
+  FROM public.team_players tp
+  JOIN public.teams tm ON tm.id = tp.team_id
+  LEFT JOIN public.profiles p ON p.user_id = tp.player_id
+  LEFT JOIN public.auction_pool ap
+    ON ap.player_id = tp.player_id AND ap.tournament_id = tm.tournament_id
+  WHERE tp.team_id = _team_id
+$$;
+
+-- Would winning _player_id leave _team_id with an invalid squad? Returns the
+-- reason, or NULL when the win is allowed. Checks auction_config.max_players
+-- for the lot's category, squad_rules maximums, and whether the slots left
+-- after the win can still cover every squad_rules minimum.
+CREATE OR REPLACE FUNCTION public.check_squad_rules(_team_id UUID, _player_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _players_per_team INTEGER;
+  _lot_type TEXT;
+  _lot_category TEXT;
+  _lot_auction_category TEXT;
+  _category_cap INTEGER;
+  _rule public.squad_rules;
+  _count INTEGER;
+  _squad_size INTEGER;
+  _type_shortfall INTEGER := 0;
+  _category_shortfall INTEGER := 0;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _team_id;
+
+  SELECT players_per_team INTO _players_per_team
+  FROM public.tournaments
+  WHERE id = _team.tournament_id;
+
+  SELECT
+    COALESCE(ap.player_type, p.player_type)::TEXT,
+    COALESCE(ap.player_category, p.player_category)::TEXT,
+    ap.auction_category
+  INTO _lot_type, _lot_category, _lot_auction_category
+  FROM public.profiles p
+  LEFT JOIN public.auction_pool ap
+    ON ap.player_id = p.user_id AND ap.tournament_id = _team.tournament_id
+  WHERE p.user_id = _player_id;
+
+  SELECT COUNT(*) INTO _squad_size FROM public.team_players WHERE team_id = _team_id;
+
+  -- Category caps from the auction config
+  IF _lot_auction_category IS NOT NULL THEN
+    SELECT max_players INTO _category_cap
+    FROM public.auction_config
+    WHERE tournament_id = _team.tournament_id
+      AND category = _lot_auction_category
+      AND is_active = true
+    LIMIT 1;
+
+    IF _category_cap IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.get_team_squad(_team_id) s
+      WHERE s.auction_category = _lot_auction_category
+    ) >= _category_cap THEN
+      RETURN format('Your squad already has the maximum of %s %s players.', _category_cap, _lot_auction_category);
+    END IF;
+  END IF;
+
+  FOR _rule IN
+    SELECT * FROM public.squad_rules WHERE tournament_id = _team.tournament_id
+  LOOP
+    IF _rule.rule_type = 'player_type' THEN
+      SELECT COUNT(*) INTO _count
+      FROM public.get_team_squad(_team_id) s
+      WHERE s.player_type = _rule.target;
+      IF _lot_type = _rule.target THEN
+        _count := _count + 1;
+      END IF;
+    ELSE
+      SELECT COUNT(*) INTO _count
+      FROM public.get_team_squad(_team_id) s
+      WHERE s.player_category = _rule.target;
+      IF _lot_category = _rule.target THEN
+        _count := _count + 1;
+      END IF;
+    END IF;
+
+    IF _rule.max_count IS NOT NULL AND _count > _rule.max_count THEN
+      RETURN format(
+        'Your squad can have at most %s %s players.',
+        _rule.max_count,
+        CASE WHEN _rule.rule_type = 'player_type'
+          THEN initcap(replace(_rule.target, '_', ' '))
+          ELSE upper(replace(_rule.target, '_plus', '+'))
+        END
+      );
+    END IF;
+
+    IF _rule.min_count IS NOT NULL AND _count < _rule.min_count THEN
+      IF _rule.rule_type = 'player_type' THEN
+        _type_shortfall := _type_shortfall + (_rule.min_count - _count);
+      ELSE
+        _category_shortfall := _category_shortfall + (_rule.min_count - _count);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF GREATEST(_type_shortfall, _category_shortfall) > _players_per_team - _squad_size - 1 THEN
+    RETURN 'Winning this player would leave too few slots to meet the squad minimums.';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Owners are blocked from bids that would break the squad rules
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _max_amount NUMERIC;
+  _rule_violation TEXT;
+  _last_activity TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  _rule_violation := public.check_squad_rules(_team_id, _player_id);
+
+  IF _rule_violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _rule_violation;
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _last_activity := GREATEST(_state.bidding_opened_at, _highest.bid_at);
+
+  IF now() > _last_activity + make_interval(secs => COALESCE(_bid_time, 10)) THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  RETURN _bid;
+END;
+$$;
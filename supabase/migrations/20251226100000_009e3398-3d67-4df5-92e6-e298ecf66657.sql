@@ -0,0 +1,436 @@
+-- Anti-sniping: bids in the last extension_threshold seconds add
+-- extension_seconds on top of the normal bid_time reset
+ALTER TABLE public.auction_timer
+ADD COLUMN extension_seconds INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN extension_threshold INTEGER NOT NULL DEFAULT 0;
+
+-- The lot's countdown lives on the server. While paused, deadline_at is NULL
+-- and paused_remaining holds the seconds that were left.
+ALTER TABLE public.auction_state
+ADD COLUMN deadline_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN is_paused BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN paused_remaining NUMERIC;
+
+-- Nominating resets the countdown
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  _tournament_id UUID,
+  _player_id UUID,
+  _base_price NUMERIC DEFAULT NULL
+)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _lot public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Close bidding on the current player first.';
+  END IF;
+
+  SELECT * INTO _lot
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id AND player_id = _player_id
+  FOR UPDATE;
+
+  IF _lot.id IS NULL OR NOT _lot.is_included THEN
+    RAISE EXCEPTION 'PLAYER_NOT_IN_POOL'
+      USING HINT = 'Add this player to the auction pool first.';
+  END IF;
+
+  IF _lot.status = 'sold' THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_SOLD'
+      USING HINT = 'This player already belongs to a team.';
+  END IF;
+
+  -- A nominated player who never went to bidding returns to the queue
+  UPDATE public.auction_pool
+  SET status = 'upcoming'
+  WHERE tournament_id = _tournament_id
+    AND status = 'bidding'
+    AND player_id <> _player_id;
+
+  UPDATE public.auction_pool
+  SET status = 'bidding'
+  WHERE id = _lot.id;
+
+  INSERT INTO public.auction_state (
+    tournament_id, current_player_id, lot_base_price,
+    is_bidding_open, lot_opened_at, bidding_opened_at
+  )
+  VALUES (_tournament_id, _player_id, COALESCE(_base_price, _lot.base_price), false, NULL, NULL)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_player_id = EXCLUDED.current_player_id,
+      lot_base_price = EXCLUDED.lot_base_price,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Opening bidding starts a fresh countdown; closing clears it
+CREATE OR REPLACE FUNCTION public.set_bidding_open(_tournament_id UUID, _open BOOLEAN)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _bid_time INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  UPDATE public.auction_state
+  SET is_bidding_open = _open,
+      lot_opened_at = COALESCE(lot_opened_at, now()),
+      bidding_opened_at = CASE WHEN _open THEN now() ELSE bidding_opened_at END,
+      deadline_at = CASE
+        WHEN _open THEN now() + make_interval(secs => COALESCE(_bid_time, 10))
+        ELSE NULL
+      END,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Freeze or restart the countdown on the open lot
+CREATE OR REPLACE FUNCTION public.set_bidding_paused(_tournament_id UUID, _paused BOOLEAN)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL OR NOT _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Open bidding on a player first.';
+  END IF;
+
+  IF _paused AND NOT _state.is_paused THEN
+    UPDATE public.auction_state
+    SET is_paused = true,
+        paused_remaining = GREATEST(EXTRACT(EPOCH FROM deadline_at - now()), 0),
+        deadline_at = NULL
+    WHERE id = _state.id
+    RETURNING * INTO _state;
+  ELSIF NOT _paused AND _state.is_paused THEN
+    UPDATE public.auction_state
+    SET is_paused = false,
+        deadline_at = now() + make_interval(secs => COALESCE(paused_remaining, 0)),
+        paused_remaining = NULL
+    WHERE id = _state.id
+    RETURNING * INTO _state;
+  END IF;
+
+  RETURN _state;
+END;
+$$;
+
+-- Sell the current player to the highest bidder
+CREATE OR REPLACE FUNCTION public.hammer_lot(_tournament_id UUID)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _sold public.team_players;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'Nobody has bid on this player. Mark them unsold instead.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_highest.team_id, _highest.player_id, _highest.bid_amount)
+  RETURNING * INTO _sold;
+
+  PERFORM public.adjust_team_budget(_highest.team_id, -_highest.bid_amount, 'sale');
+
+  UPDATE public.auction_pool
+  SET status = 'sold',
+      sold_team_id = _highest.team_id,
+      sold_price = _highest.bid_amount,
+      sold_at = _sold.sold_at
+  WHERE tournament_id = _tournament_id
+    AND player_id = _highest.player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id;
+
+  RETURN _sold;
+END;
+$$;
+
+-- Pass on the current player without a sale
+CREATE OR REPLACE FUNCTION public.mark_lot_unsold(_tournament_id UUID)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  UPDATE public.auction_pool
+  SET status = 'unsold'
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Bids are checked against the stored deadline and push it back
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _max_amount NUMERIC;
+  _rule_violation TEXT;
+  _extension_seconds INTEGER;
+  _extension_threshold INTEGER;
+  _deadline TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  IF _state.is_paused THEN
+    RAISE EXCEPTION 'BIDDING_PAUSED'
+      USING HINT = 'The auctioneer has paused bidding on this player.';
+  END IF;
+
+  IF _state.deadline_at IS NOT NULL AND now() > _state.deadline_at THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  _rule_violation := public.check_squad_rules(_team_id, _player_id);
+
+  IF _rule_violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _rule_violation;
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  -- Reset the countdown, with extra time for bids in the closing seconds
+  SELECT bid_time, extension_seconds, extension_threshold
+  INTO _bid_time, _extension_seconds, _extension_threshold
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _deadline := now() + make_interval(secs => COALESCE(_bid_time, 10));
+
+  IF COALESCE(_extension_seconds, 0) > 0
+    AND _state.deadline_at IS NOT NULL
+    AND _state.deadline_at - now() <= make_interval(secs => COALESCE(_extension_threshold, 0)) THEN
+    _deadline := _deadline + make_interval(secs => _extension_seconds);
+  END IF;
+
+  UPDATE public.auction_state
+  SET deadline_at = _deadline
+  WHERE id = _state.id;
+
+  RETURN _bid;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Auction rounds: round 1 is the main auction, later rounds re-auction
+-- unsold players. auction_pool.round is the round a lot is queued for and
+-- sold_round the round it was sold in.
+ALTER TABLE public.auction_state
+ADD COLUMN current_round INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.auction_pool
+ADD COLUMN round INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN sold_round INTEGER;
+
+UPDATE public.auction_pool
+SET sold_round = 1
+WHERE status = 'sold';
+
+-- Re-queue unsold lots (all, or only _player_ids) for a new round. The new
+-- base price is the lot's category base price (else the tournament's) less
+-- _reduction_pct percent. Returns the new round number.
+CREATE OR REPLACE FUNCTION public.start_accelerated_round(
+  _tournament_id UUID,
+  _player_ids UUID[] DEFAULT NULL,
+  _reduction_pct NUMERIC DEFAULT 0
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _round INTEGER;
+  _next_order INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  IF _reduction_pct < 0 OR _reduction_pct >= 100 THEN
+    RAISE EXCEPTION 'INVALID_REDUCTION'
+      USING HINT = 'The base price reduction must be between 0 and 99 percent.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NOT NULL THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Finish the current player before starting a new round.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.auction_pool
+    WHERE tournament_id = _tournament_id
+      AND status = 'unsold'
+      AND is_included
+      AND (_player_ids IS NULL OR player_id = ANY(_player_ids))
+  ) THEN
+    RAISE EXCEPTION 'NO_UNSOLD_PLAYERS'
+      USING HINT = 'There are no unsold players to re-auction.';
+  END IF;
+
+  _round := COALESCE(_state.current_round, 1) + 1;
+
+  INSERT INTO public.auction_state (tournament_id, current_round)
+  VALUES (_tournament_id, _round)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_round = EXCLUDED.current_round;
+
+  SELECT COALESCE(MAX(lot_order), 0) INTO _next_order
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id;
+
+  UPDATE public.auction_pool ap
+  SET status = 'upcoming',
+      round = _round,
+      lot_order = _next_order + requeued.position,
+      base_price = ROUND(requeued.full_price * (100 - _reduction_pct) / 100)
+  FROM (
+    SELECT
+      p.id,
+      ROW_NUMBER() OVER (ORDER BY p.lot_order) AS position,
+      COALESCE(ac.base_price, t.base_price) AS full_price
+    FROM public.auction_pool p
+    JOIN public.tournaments t ON t.id = p.tournament_id
+    LEFT JOIN public.auction_config ac
+      ON ac.tournament_id = p.tournament_id
+     AND ac.category = p.auction_category
+     AND ac.is_active = true
+    WHERE p.tournament_id = _tournament_id
+      AND p.status = 'unsold'
+      AND p.is_included
+      AND (_player_ids IS NULL OR p.player_id = ANY(_player_ids))
+  ) requeued
+  WHERE ap.id = requeued.id;
+
+  RETURN _round;
+END;
+$$;
+
+-- Record the round each sale happened in
+CREATE OR REPLACE FUNCTION public.hammer_lot(_tournament_id UUID)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _sold public.team_players;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'Nobody has bid on this player. Mark them unsold instead.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_highest.team_id, _highest.player_id, _highest.bid_amount)
+  RETURNING * INTO _sold;
+
+  PERFORM public.adjust_team_budget(_highest.team_id, -_highest.bid_amount, 'sale');
+
+  UPDATE public.auction_pool
+  SET status = 'sold',
+      sold_team_id = _highest.team_id,
+      sold_price = _highest.bid_amount,
+      sold_at = _sold.sold_at,
+      sold_round = _state.current_round
+  WHERE tournament_id = _tournament_id
+    AND player_id = _highest.player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id;
+
+  RETURN _sold;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Create auction_audit_log table: corrections made by the organizer during
+-- the auction. Rows are written by the auction RPCs only.
+CREATE TABLE public.auction_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  player_id UUID,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  amount NUMERIC,
+  performed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.auction_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for auction_audit_log
+CREATE POLICY "Organizers can view the audit log"
+ON public.auction_audit_log FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = auction_audit_log.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+-- Reverse the most recent sale: remove the player from the team, refund the
+-- price and put the player back in the pool as upcoming.
+CREATE OR REPLACE FUNCTION public.undo_last_sale(_tournament_id UUID)
+RETURNS public.auction_pool
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _entry public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NOT NULL THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Finish the current player before undoing a sale.';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id
+    AND status = 'sold'
+  ORDER BY sold_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _entry.id IS NULL THEN
+    RAISE EXCEPTION 'NO_SALE_TO_UNDO'
+      USING HINT = 'No player has been sold yet.';
+  END IF;
+
+  DELETE FROM public.team_players
+  WHERE team_id = _entry.sold_team_id
+    AND player_id = _entry.player_id;
+
+  PERFORM public.adjust_team_budget(_entry.sold_team_id, _entry.sold_price, 'sale reversal');
+
+  INSERT INTO public.auction_audit_log (tournament_id, action, player_id, team_id, amount, performed_by)
+  VALUES (_tournament_id, 'undo_sale', _entry.player_id, _entry.sold_team_id, _entry.sold_price, auth.uid());
+
+  UPDATE public.auction_pool
+  SET status = 'upcoming',
+      sold_team_id = NULL,
+      sold_price = NULL,
+      sold_at = NULL,
+      sold_round = NULL
+  WHERE id = _entry.id
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;
@@ -0,0 +1,195 @@
+-- Create retention_slots table: the organizer's retention price list. The
+-- number of slots is each team's retention limit.
+CREATE TABLE public.retention_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  slot_number INTEGER NOT NULL CHECK (slot_number > 0),
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, slot_number)
+);
+
+-- Create retentions table: players kept by a team before the auction.
+-- Rows are written by retain_player / release_retention only.
+CREATE TABLE public.retentions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  slot_number INTEGER NOT NULL,
+  price NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, player_id),
+  UNIQUE (team_id, slot_number)
+);
+
+ALTER TABLE public.retention_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retentions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for retention_slots
+CREATE POLICY "Retention slots viewable by everyone"
+ON public.retention_slots FOR SELECT
+USING (true);
+
+CREATE POLICY "Organizers can manage retention slots"
+ON public.retention_slots FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM tournaments t
+  WHERE t.id = retention_slots.tournament_id
+  AND t.organizer_id = auth.uid()
+));
+
+-- RLS policies for retentions
+CREATE POLICY "Retentions viewable by everyone"
+ON public.retentions FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_retention_slots_updated_at
+BEFORE UPDATE ON public.retention_slots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Retentions are only open until the auction goes live or a lot is played
+CREATE OR REPLACE FUNCTION public.is_retention_open(_tournament_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.auction_pool
+    WHERE tournament_id = _tournament_id AND status <> 'upcoming'
+  )
+$$;
+
+-- Keep an approved applicant on the owner's team at the price of the team's
+-- lowest free retention slot. The player joins team_players straight away
+-- and the price comes off the purse, so the pool builder skips them.
+CREATE OR REPLACE FUNCTION public.retain_player(_team_id UUID, _player_id UUID)
+RETURNS public.retentions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _slot public.retention_slots;
+  _retention public.retentions;
+BEGIN
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id
+  FOR UPDATE;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can retain players for this team.';
+  END IF;
+
+  IF NOT public.is_retention_open(_team.tournament_id) THEN
+    RAISE EXCEPTION 'RETENTION_CLOSED'
+      USING HINT = 'Retentions close once the auction starts.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournament_applications
+    WHERE tournament_id = _team.tournament_id
+      AND player_id = _player_id
+      AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_NOT_APPROVED'
+      USING HINT = 'Only approved applicants can be retained.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.team_players tp
+    JOIN public.teams tm ON tm.id = tp.team_id
+    WHERE tm.tournament_id = _team.tournament_id AND tp.player_id = _player_id
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_ON_TEAM'
+      USING HINT = 'This player is already on a team.';
+  END IF;
+
+  SELECT * INTO _slot
+  FROM public.retention_slots rs
+  WHERE rs.tournament_id = _team.tournament_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.retentions r
+      WHERE r.team_id = _team_id AND r.slot_number = rs.slot_number
+    )
+  ORDER BY rs.slot_number
+  LIMIT 1;
+
+  IF _slot.id IS NULL THEN
+    RAISE EXCEPTION 'RETENTION_LIMIT_REACHED'
+      USING HINT = 'Your team has used all of its retention slots.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_team_id, _player_id, _slot.price);
+
+  PERFORM public.adjust_team_budget(_team_id, -_slot.price, 'retention');
+
+  -- Drop the player from a pool built before the retention
+  DELETE FROM public.auction_pool
+  WHERE tournament_id = _team.tournament_id
+    AND player_id = _player_id;
+
+  INSERT INTO public.retentions (tournament_id, team_id, player_id, slot_number, price)
+  VALUES (_team.tournament_id, _team_id, _player_id, _slot.slot_number, _slot.price)
+  RETURNING * INTO _retention;
+
+  RETURN _retention;
+END;
+$$;
+
+-- Undo a retention while retentions are still open and refund its price
+CREATE OR REPLACE FUNCTION public.release_retention(_team_id UUID, _player_id UUID)
+RETURNS public.retentions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _retention public.retentions;
+BEGIN
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id
+  FOR UPDATE;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can release players from this team.';
+  END IF;
+
+  IF NOT public.is_retention_open(_team.tournament_id) THEN
+    RAISE EXCEPTION 'RETENTION_CLOSED'
+      USING HINT = 'Retentions close once the auction starts.';
+  END IF;
+
+  DELETE FROM public.retentions
+  WHERE team_id = _team_id AND player_id = _player_id
+  RETURNING * INTO _retention;
+
+  IF _retention.id IS NULL THEN
+    RAISE EXCEPTION 'NOT_RETAINED'
+      USING HINT = 'This player is not retained by your team.';
+  END IF;
+
+  DELETE FROM public.team_players
+  WHERE team_id = _team_id AND player_id = _player_id;
+
+  PERFORM public.adjust_team_budget(_team_id, _retention.price, 'retention release');
+
+  RETURN _retention;
+END;
+$$;
@@ -0,0 +1,403 @@
+-- Right to Match: a lot can name the team the player was with last season.
+-- When another team wins the player, the previous team may match the
+-- winning bid within rtm_seconds, using one of its rtm_allowance cards.
+ALTER TABLE public.tournaments
+ADD COLUMN rtm_allowance INTEGER NOT NULL DEFAULT 0 CHECK (rtm_allowance >= 0),
+ADD COLUMN rtm_seconds INTEGER NOT NULL DEFAULT 15 CHECK (rtm_seconds > 0);
+
+ALTER TABLE public.auction_pool
+ADD COLUMN previous_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD COLUMN rtm_used BOOLEAN NOT NULL DEFAULT false;
+
+-- Set while the previous team decides; bidding stays closed meanwhile
+ALTER TABLE public.auction_state
+ADD COLUMN rtm_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD COLUMN rtm_deadline_at TIMESTAMP WITH TIME ZONE;
+
+-- The team that may match _winning_team_id's _amount for _player_id, or NULL
+-- when there is none or it has no cards left or couldn't legally win the lot
+CREATE OR REPLACE FUNCTION public.get_rtm_team(
+  _tournament_id UUID,
+  _player_id UUID,
+  _winning_team_id UUID,
+  _amount NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _previous_team_id UUID;
+  _allowance INTEGER;
+BEGIN
+  SELECT previous_team_id INTO _previous_team_id
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id AND player_id = _player_id;
+
+  IF _previous_team_id IS NULL OR _previous_team_id = _winning_team_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT rtm_allowance INTO _allowance
+  FROM public.tournaments
+  WHERE id = _tournament_id;
+
+  IF (
+    SELECT COUNT(*) FROM public.auction_pool
+    WHERE tournament_id = _tournament_id
+      AND sold_team_id = _previous_team_id
+      AND rtm_used
+  ) >= _allowance THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.get_team_max_bid(_previous_team_id) < _amount
+    OR public.check_squad_rules(_previous_team_id, _player_id) IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN _previous_team_id;
+END;
+$$;
+
+-- Sell the current lot to _team_id and clear the lot. Shared by hammer_lot
+-- and exercise_rtm, which have already checked who may sell.
+CREATE OR REPLACE FUNCTION public.sell_current_lot(
+  _state public.auction_state,
+  _team_id UUID,
+  _amount NUMERIC,
+  _via_rtm BOOLEAN
+)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _sold public.team_players;
+BEGIN
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_team_id, _state.current_player_id, _amount)
+  RETURNING * INTO _sold;
+
+  PERFORM public.adjust_team_budget(_team_id, -_amount, 'sale');
+
+  UPDATE public.auction_pool
+  SET status = 'sold',
+      sold_team_id = _team_id,
+      sold_price = _amount,
+      sold_at = _sold.sold_at,
+      sold_round = _state.current_round,
+      rtm_used = _via_rtm
+  WHERE tournament_id = _state.tournament_id
+    AND player_id = _state.current_player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL,
+      rtm_team_id = NULL,
+      rtm_deadline_at = NULL
+  WHERE id = _state.id;
+
+  RETURN _sold;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sell_current_lot(public.auction_state, UUID, NUMERIC, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Hammering a lot with an eligible previous team starts the RTM window and
+-- returns NULL instead of selling. Hammering again after the window closes
+-- sells to the winning bidder.
+CREATE OR REPLACE FUNCTION public.hammer_lot(_tournament_id UUID)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _rtm_team_id UUID;
+  _rtm_seconds INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'Nobody has bid on this player. Mark them unsold instead.';
+  END IF;
+
+  IF _state.rtm_team_id IS NOT NULL THEN
+    IF now() <= _state.rtm_deadline_at THEN
+      RAISE EXCEPTION 'RTM_PENDING'
+        USING HINT = 'The previous team is still deciding whether to match.';
+    END IF;
+
+    RETURN public.sell_current_lot(_state, _highest.team_id, _highest.bid_amount, false);
+  END IF;
+
+  _rtm_team_id := public.get_rtm_team(
+    _tournament_id, _state.current_player_id, _highest.team_id, _highest.bid_amount
+  );
+
+  IF _rtm_team_id IS NOT NULL THEN
+    SELECT rtm_seconds INTO _rtm_seconds
+    FROM public.tournaments
+    WHERE id = _tournament_id;
+
+    UPDATE public.auction_state
+    SET is_bidding_open = false,
+        deadline_at = NULL,
+        is_paused = false,
+        paused_remaining = NULL,
+        rtm_team_id = _rtm_team_id,
+        rtm_deadline_at = now() + make_interval(secs => _rtm_seconds)
+    WHERE id = _state.id;
+
+    RETURN NULL;
+  END IF;
+
+  RETURN public.sell_current_lot(_state, _highest.team_id, _highest.bid_amount, false);
+END;
+$$;
+
+-- The previous team's owner matches the winning bid or lets it stand
+CREATE OR REPLACE FUNCTION public.exercise_rtm(_tournament_id UUID, _match BOOLEAN)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.rtm_team_id IS NULL THEN
+    RAISE EXCEPTION 'NO_RTM_PENDING'
+      USING HINT = 'There is no Right to Match decision to make.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = _state.rtm_team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the previous team''s owner can use Right to Match.';
+  END IF;
+
+  IF now() > _state.rtm_deadline_at THEN
+    RAISE EXCEPTION 'RTM_EXPIRED'
+      USING HINT = 'The time to match this bid has run out.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _match THEN
+    RETURN public.sell_current_lot(_state, _state.rtm_team_id, _highest.bid_amount, true);
+  END IF;
+
+  RETURN public.sell_current_lot(_state, _highest.team_id, _highest.bid_amount, false);
+END;
+$$;
+
+-- Bidding can't reopen and the lot can't go unsold while RTM is pending
+CREATE OR REPLACE FUNCTION public.set_bidding_open(_tournament_id UUID, _open BOOLEAN)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _bid_time INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  IF _state.rtm_team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'RTM_PENDING'
+      USING HINT = 'The previous team is still deciding whether to match.';
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  UPDATE public.auction_state
+  SET is_bidding_open = _open,
+      lot_opened_at = COALESCE(lot_opened_at, now()),
+      bidding_opened_at = CASE WHEN _open THEN now() ELSE bidding_opened_at END,
+      deadline_at = CASE
+        WHEN _open THEN now() + make_interval(secs => COALESCE(_bid_time, 10))
+        ELSE NULL
+      END,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_lot_unsold(_tournament_id UUID)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  IF _state.rtm_team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'RTM_PENDING'
+      USING HINT = 'The previous team is still deciding whether to match.';
+  END IF;
+
+  UPDATE public.auction_pool
+  SET status = 'unsold'
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id;
+
+  UPDATE public.auction_state
+  SET current_player_id = NULL,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Undoing an RTM sale gives the card back
+CREATE OR REPLACE FUNCTION public.undo_last_sale(_tournament_id UUID)
+RETURNS public.auction_pool
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _entry public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NOT NULL THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Finish the current player before undoing a sale.';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id
+    AND status = 'sold'
+  ORDER BY sold_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _entry.id IS NULL THEN
+    RAISE EXCEPTION 'NO_SALE_TO_UNDO'
+      USING HINT = 'No player has been sold yet.';
+  END IF;
+
+  DELETE FROM public.team_players
+  WHERE team_id = _entry.sold_team_id
+    AND player_id = _entry.player_id;
+
+  PERFORM public.adjust_team_budget(_entry.sold_team_id, _entry.sold_price, 'sale reversal');
+
+  INSERT INTO public.auction_audit_log (tournament_id, action, player_id, team_id, amount, performed_by)
+  VALUES (_tournament_id, 'undo_sale', _entry.player_id, _entry.sold_team_id, _entry.sold_price, auth.uid());
+
+  UPDATE public.auction_pool
+  SET status = 'upcoming',
+      sold_team_id = NULL,
+      sold_price = NULL,
+      sold_at = NULL,
+      sold_round = NULL,
+      rtm_used = false
+  WHERE id = _entry.id
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;
@@ -0,0 +1,363 @@
+-- Create auto_bids table: a team's private ceiling for a player. Only the
+-- team owner can read it and it is not published to Realtime; the server
+-- bids on the team's behalf through run_auto_bids.
+CREATE TABLE public.auto_bids (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  max_amount NUMERIC NOT NULL CHECK (max_amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, player_id)
+);
+
+ALTER TABLE public.auto_bids ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for auto_bids
+CREATE POLICY "Owners can manage their auto bids"
+ON public.auto_bids FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM teams t
+  WHERE t.id = auto_bids.team_id
+  AND t.owner_id = auth.uid()
+));
+
+CREATE TRIGGER update_auto_bids_updated_at
+BEFORE UPDATE ON public.auto_bids
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Counter-bid for teams with an auto bid on the open lot, one increment at a
+-- time, until no other team's ceiling covers the next bid. The strongest
+-- ceiling bids first (earliest entry on ties). Each bid passes the same
+-- purse and squad guards as place_bid. Returns the number of bids placed.
+CREATE OR REPLACE FUNCTION public.run_auto_bids(_tournament_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _next_amount NUMERIC;
+  _auto public.auto_bids;
+  _bid_time INTEGER;
+  _placed INTEGER := 0;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id;
+
+  IF _state.current_player_id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.is_paused
+    OR _state.rtm_team_id IS NOT NULL
+    OR (_state.deadline_at IS NOT NULL AND now() > _state.deadline_at)
+    OR NOT EXISTS (
+      SELECT 1 FROM public.tournaments
+      WHERE id = _tournament_id AND is_auction_live = true
+    ) THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    SELECT * INTO _highest
+    FROM public.auction_bids
+    WHERE tournament_id = _tournament_id
+      AND player_id = _state.current_player_id
+      AND bid_at >= _state.lot_opened_at
+    ORDER BY bid_amount DESC, bid_at ASC
+    LIMIT 1;
+
+    _next_amount := CASE
+      WHEN _highest.id IS NULL THEN _state.lot_base_price
+      ELSE _highest.bid_amount
+        + public.get_bid_increment(_tournament_id, _state.current_player_id, _highest.bid_amount)
+    END;
+
+    SELECT ab.* INTO _auto
+    FROM public.auto_bids ab
+    WHERE ab.tournament_id = _tournament_id
+      AND ab.player_id = _state.current_player_id
+      AND ab.team_id IS DISTINCT FROM _highest.team_id
+      AND ab.max_amount >= _next_amount
+      AND public.get_team_max_bid(ab.team_id) >= _next_amount
+      AND public.check_squad_rules(ab.team_id, ab.player_id) IS NULL
+    ORDER BY ab.max_amount DESC, ab.created_at ASC
+    LIMIT 1;
+
+    EXIT WHEN _auto.id IS NULL;
+
+    INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+    VALUES (_tournament_id, _state.current_player_id, _auto.team_id, _next_amount);
+
+    _placed := _placed + 1;
+  END LOOP;
+
+  IF _placed > 0 THEN
+    SELECT bid_time INTO _bid_time
+    FROM public.auction_timer
+    WHERE tournament_id = _tournament_id;
+
+    UPDATE public.auction_state
+    SET deadline_at = GREATEST(deadline_at, now() + make_interval(secs => COALESCE(_bid_time, 10)))
+    WHERE id = _state.id;
+  END IF;
+
+  RETURN _placed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_auto_bids(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Save the owner's ceiling for a player and, if that player is up now, let it
+-- bid straight away
+CREATE OR REPLACE FUNCTION public.set_auto_bid(_team_id UUID, _player_id UUID, _max_amount NUMERIC)
+RETURNS public.auto_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _auto public.auto_bids;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _team_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can set auto bids for this team.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.auction_pool
+    WHERE tournament_id = _team.tournament_id
+      AND player_id = _player_id
+      AND status IN ('upcoming', 'bidding', 'unsold')
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_NOT_IN_POOL'
+      USING HINT = 'This player is not up for auction.';
+  END IF;
+
+  INSERT INTO public.auto_bids (tournament_id, team_id, player_id, max_amount)
+  VALUES (_team.tournament_id, _team_id, _player_id, _max_amount)
+  ON CONFLICT (team_id, player_id) DO UPDATE
+  SET max_amount = EXCLUDED.max_amount
+  RETURNING * INTO _auto;
+
+  -- Lock the lot like place_bid before bidding on it
+  PERFORM 1 FROM public.auction_state
+  WHERE tournament_id = _team.tournament_id AND current_player_id = _player_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    PERFORM public.run_auto_bids(_team.tournament_id);
+  END IF;
+
+  RETURN _auto;
+END;
+$$;
+
+-- Teams with an auto bid counter every manual bid
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _max_amount NUMERIC;
+  _rule_violation TEXT;
+  _extension_seconds INTEGER;
+  _extension_threshold INTEGER;
+  _deadline TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  IF _state.is_paused THEN
+    RAISE EXCEPTION 'BIDDING_PAUSED'
+      USING HINT = 'The auctioneer has paused bidding on this player.';
+  END IF;
+
+  IF _state.deadline_at IS NOT NULL AND now() > _state.deadline_at THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  _rule_violation := public.check_squad_rules(_team_id, _player_id);
+
+  IF _rule_violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _rule_violation;
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  -- Reset the countdown, with extra time for bids in the closing seconds
+  SELECT bid_time, extension_seconds, extension_threshold
+  INTO _bid_time, _extension_seconds, _extension_threshold
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _deadline := now() + make_interval(secs => COALESCE(_bid_time, 10));
+
+  IF COALESCE(_extension_seconds, 0) > 0
+    AND _state.deadline_at IS NOT NULL
+    AND _state.deadline_at - now() <= make_interval(secs => COALESCE(_extension_threshold, 0)) THEN
+    _deadline := _deadline + make_interval(secs => _extension_seconds);
+  END IF;
+
+  UPDATE public.auction_state
+  SET deadline_at = _deadline
+  WHERE id = _state.id;
+
+  PERFORM public.run_auto_bids(_tournament_id);
+
+  RETURN _bid;
+END;
+$$;
+
+-- Auto bids can open the bidding on a lot
+CREATE OR REPLACE FUNCTION public.set_bidding_open(_tournament_id UUID, _open BOOLEAN)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _bid_time INTEGER;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  IF _state.rtm_team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'RTM_PENDING'
+      USING HINT = 'The previous team is still deciding whether to match.';
+  END IF;
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  UPDATE public.auction_state
+  SET is_bidding_open = _open,
+      lot_opened_at = COALESCE(lot_opened_at, now()),
+      bidding_opened_at = CASE WHEN _open THEN now() ELSE bidding_opened_at END,
+      deadline_at = CASE
+        WHEN _open THEN now() + make_interval(secs => COALESCE(_bid_time, 10))
+        ELSE NULL
+      END,
+      is_paused = false,
+      paused_remaining = NULL
+  WHERE id = _state.id;
+
+  IF _open THEN
+    PERFORM public.run_auto_bids(_tournament_id);
+  END IF;
+
+  SELECT * INTO _state FROM public.auction_state WHERE id = _state.id;
+
+  RETURN _state;
+END;
+$$;
@@ -0,0 +1,566 @@
+-- Sealed-bid auctions: every team submits one hidden bid per lot before the
+-- timer runs out, then the organizer reveals them and the highest bid wins.
+ALTER TYPE public.tournament_type ADD VALUE IF NOT EXISTS 'Sealed Bid';
+
+-- How equal sealed bids are settled: the earliest submission, or the team
+-- that has spent less of its purse so far
+ALTER TABLE public.tournaments
+ADD COLUMN sealed_tie_break TEXT NOT NULL DEFAULT 'earliest_bid'
+  CHECK (sealed_tie_break IN ('earliest_bid', 'lower_spent'));
+
+-- How many teams have bid on the current lot, and when the bids were shown
+ALTER TABLE public.auction_state
+ADD COLUMN sealed_bid_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN sealed_revealed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create sealed_bids table: one hidden bid per team per lot. A bid is only
+-- visible to its team's owner until the organizer reveals the lot.
+CREATE TABLE public.sealed_bids (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  bid_amount NUMERIC NOT NULL CHECK (bid_amount > 0),
+  lot_opened_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revealed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (team_id, player_id, lot_opened_at)
+);
+
+ALTER TABLE public.sealed_bids ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for sealed_bids; writes go through submit_sealed_bid
+CREATE POLICY "Sealed bids viewable by owner or once revealed"
+ON public.sealed_bids FOR SELECT
+USING (
+  revealed_at IS NOT NULL
+  OR EXISTS (
+    SELECT 1 FROM teams t
+    WHERE t.id = sealed_bids.team_id
+    AND t.owner_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.is_sealed_bid_auction(_tournament_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND tournament_type::TEXT = 'Sealed Bid'
+  )
+$$;
+
+-- Record the owner's one sealed bid on the open lot. The bid passes the same
+-- purse and squad guards as place_bid but never moves the countdown.
+CREATE OR REPLACE FUNCTION public.submit_sealed_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.sealed_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _max_amount NUMERIC;
+  _rule_violation TEXT;
+  _bid public.sealed_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF NOT public.is_sealed_bid_auction(_tournament_id) THEN
+    RAISE EXCEPTION 'NOT_SEALED_BID'
+      USING HINT = 'This auction takes open bids.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.sealed_revealed_at IS NOT NULL
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  IF _state.is_paused THEN
+    RAISE EXCEPTION 'BIDDING_PAUSED'
+      USING HINT = 'The auctioneer has paused bidding on this player.';
+  END IF;
+
+  IF _state.deadline_at IS NOT NULL AND now() > _state.deadline_at THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sealed_bids
+    WHERE team_id = _team_id
+      AND player_id = _player_id
+      AND lot_opened_at = _state.lot_opened_at
+  ) THEN
+    RAISE EXCEPTION 'SEALED_BID_SUBMITTED'
+      USING HINT = 'Your team has already submitted its sealed bid for this player.';
+  END IF;
+
+  IF _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('Your bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  _rule_violation := public.check_squad_rules(_team_id, _player_id);
+
+  IF _rule_violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _rule_violation;
+  END IF;
+
+  INSERT INTO public.sealed_bids (tournament_id, team_id, player_id, bid_amount, lot_opened_at)
+  VALUES (_tournament_id, _team_id, _player_id, _amount, _state.lot_opened_at)
+  RETURNING * INTO _bid;
+
+  UPDATE public.auction_state
+  SET sealed_bid_count = sealed_bid_count + 1
+  WHERE id = _state.id;
+
+  RETURN _bid;
+END;
+$$;
+
+-- Close bidding, show every sealed bid on the lot and enter the winner as the
+-- lot's highest bid, so hammer_lot (and Right to Match) settle it as usual.
+-- Equal bids go to the earliest submission, or to the team that has spent
+-- less when the tournament is set to 'lower_spent'.
+CREATE OR REPLACE FUNCTION public.reveal_sealed_bids(_tournament_id UUID)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _tournament public.tournaments;
+  _winner public.sealed_bids;
+  _bid public.auction_bids;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NULL THEN
+    RAISE EXCEPTION 'NO_CURRENT_LOT'
+      USING HINT = 'Nominate a player first.';
+  END IF;
+
+  IF NOT public.is_sealed_bid_auction(_tournament_id) THEN
+    RAISE EXCEPTION 'NOT_SEALED_BID'
+      USING HINT = 'This auction takes open bids.';
+  END IF;
+
+  IF _state.sealed_revealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'BIDS_ALREADY_REVEALED'
+      USING HINT = 'The sealed bids for this player are already open.';
+  END IF;
+
+  SELECT * INTO _tournament
+  FROM public.tournaments
+  WHERE id = _tournament_id;
+
+  SELECT sb.* INTO _winner
+  FROM public.sealed_bids sb
+  JOIN public.teams t ON t.id = sb.team_id
+  WHERE sb.tournament_id = _tournament_id
+    AND sb.player_id = _state.current_player_id
+    AND sb.lot_opened_at = _state.lot_opened_at
+  ORDER BY sb.bid_amount DESC,
+    CASE
+      WHEN _tournament.sealed_tie_break = 'lower_spent'
+      THEN _tournament.team_budget - t.budget_remaining
+    END ASC,
+    sb.submitted_at ASC
+  LIMIT 1;
+
+  IF _winner.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'No team submitted a sealed bid. Mark the player unsold instead.';
+  END IF;
+
+  UPDATE public.sealed_bids
+  SET revealed_at = now()
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND lot_opened_at = _state.lot_opened_at;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _winner.player_id, _winner.team_id, _winner.bid_amount)
+  RETURNING * INTO _bid;
+
+  UPDATE public.auction_state
+  SET is_bidding_open = false,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL,
+      sealed_revealed_at = now()
+  WHERE id = _state.id;
+
+  RETURN _bid;
+END;
+$$;
+
+-- Each nomination starts with no sealed bids
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  _tournament_id UUID,
+  _player_id UUID,
+  _base_price NUMERIC DEFAULT NULL
+)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _lot public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Close bidding on the current player first.';
+  END IF;
+
+  SELECT * INTO _lot
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id AND player_id = _player_id
+  FOR UPDATE;
+
+  IF _lot.id IS NULL OR NOT _lot.is_included THEN
+    RAISE EXCEPTION 'PLAYER_NOT_IN_POOL'
+      USING HINT = 'Add this player to the auction pool first.';
+  END IF;
+
+  IF _lot.status = 'sold' THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_SOLD'
+      USING HINT = 'This player already belongs to a team.';
+  END IF;
+
+  -- A nominated player who never went to bidding returns to the queue
+  UPDATE public.auction_pool
+  SET status = 'upcoming'
+  WHERE tournament_id = _tournament_id
+    AND status = 'bidding'
+    AND player_id <> _player_id;
+
+  UPDATE public.auction_pool
+  SET status = 'bidding'
+  WHERE id = _lot.id;
+
+  INSERT INTO public.auction_state (
+    tournament_id, current_player_id, lot_base_price,
+    is_bidding_open, lot_opened_at, bidding_opened_at
+  )
+  VALUES (_tournament_id, _player_id, COALESCE(_base_price, _lot.base_price), false, NULL, NULL)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_player_id = EXCLUDED.current_player_id,
+      lot_base_price = EXCLUDED.lot_base_price,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL,
+      sealed_bid_count = 0,
+      sealed_revealed_at = NULL
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Open bids are refused in sealed-bid auctions
+CREATE OR REPLACE FUNCTION public.place_bid(
+  _tournament_id UUID,
+  _player_id UUID,
+  _team_id UUID,
+  _amount NUMERIC
+)
+RETURNS public.auction_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _team public.teams;
+  _bid_time INTEGER;
+  _highest public.auction_bids;
+  _min_amount NUMERIC;
+  _max_amount NUMERIC;
+  _rule_violation TEXT;
+  _extension_seconds INTEGER;
+  _extension_threshold INTEGER;
+  _deadline TIMESTAMP WITH TIME ZONE;
+  _bid public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND is_auction_live = true
+  ) THEN
+    RAISE EXCEPTION 'AUCTION_NOT_LIVE'
+      USING HINT = 'The auction for this tournament is not live.';
+  END IF;
+
+  IF public.is_sealed_bid_auction(_tournament_id) THEN
+    RAISE EXCEPTION 'SEALED_BIDS_ONLY'
+      USING HINT = 'This auction takes one sealed bid per team. Submit a sealed bid instead.';
+  END IF;
+
+  IF _state.id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.current_player_id IS DISTINCT FROM _player_id THEN
+    RAISE EXCEPTION 'LOT_NOT_OPEN'
+      USING HINT = 'Bidding is not open for this player.';
+  END IF;
+
+  IF _state.is_paused THEN
+    RAISE EXCEPTION 'BIDDING_PAUSED'
+      USING HINT = 'The auctioneer has paused bidding on this player.';
+  END IF;
+
+  IF _state.deadline_at IS NOT NULL AND now() > _state.deadline_at THEN
+    RAISE EXCEPTION 'BID_WINDOW_CLOSED'
+      USING HINT = 'The bidding window for this player has closed.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = _team_id AND tournament_id = _tournament_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can bid for this team.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.team_id = _team_id THEN
+    RAISE EXCEPTION 'ALREADY_HIGHEST_BIDDER'
+      USING HINT = 'Your team already holds the highest bid.';
+  END IF;
+
+  IF _highest.id IS NULL AND _amount < _state.lot_base_price THEN
+    RAISE EXCEPTION 'BID_TOO_LOW'
+      USING HINT = format('The opening bid must be at least %s.', _state.lot_base_price);
+  END IF;
+
+  IF _highest.id IS NOT NULL THEN
+    _min_amount := _highest.bid_amount
+      + public.get_bid_increment(_tournament_id, _player_id, _highest.bid_amount);
+
+    IF _amount < _min_amount THEN
+      RAISE EXCEPTION 'BID_TOO_LOW'
+        USING HINT = format('The next bid must be at least %s.', _min_amount);
+    END IF;
+  END IF;
+
+  IF _amount > _team.budget_remaining THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('Your team only has %s left.', _team.budget_remaining);
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.team_players WHERE team_id = _team_id)
+    >= (SELECT players_per_team FROM public.tournaments WHERE id = _tournament_id) THEN
+    RAISE EXCEPTION 'SQUAD_FULL'
+      USING HINT = 'Your squad is already complete.';
+  END IF;
+
+  _max_amount := public.get_team_max_bid(_team_id);
+
+  IF _amount > _max_amount THEN
+    RAISE EXCEPTION 'EXCEEDS_MAX_BID'
+      USING HINT = format('Your team can bid at most %s and still fill its squad.', _max_amount);
+  END IF;
+
+  _rule_violation := public.check_squad_rules(_team_id, _player_id);
+
+  IF _rule_violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _rule_violation;
+  END IF;
+
+  INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+  VALUES (_tournament_id, _player_id, _team_id, _amount)
+  RETURNING * INTO _bid;
+
+  -- Reset the countdown, with extra time for bids in the closing seconds
+  SELECT bid_time, extension_seconds, extension_threshold
+  INTO _bid_time, _extension_seconds, _extension_threshold
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  _deadline := now() + make_interval(secs => COALESCE(_bid_time, 10));
+
+  IF COALESCE(_extension_seconds, 0) > 0
+    AND _state.deadline_at IS NOT NULL
+    AND _state.deadline_at - now() <= make_interval(secs => COALESCE(_extension_threshold, 0)) THEN
+    _deadline := _deadline + make_interval(secs => _extension_seconds);
+  END IF;
+
+  UPDATE public.auction_state
+  SET deadline_at = _deadline
+  WHERE id = _state.id;
+
+  PERFORM public.run_auto_bids(_tournament_id);
+
+  RETURN _bid;
+END;
+$$;
+
+-- Auto bids sit out sealed-bid auctions
+CREATE OR REPLACE FUNCTION public.run_auto_bids(_tournament_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+  _next_amount NUMERIC;
+  _auto public.auto_bids;
+  _bid_time INTEGER;
+  _placed INTEGER := 0;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id;
+
+  IF _state.current_player_id IS NULL
+    OR NOT _state.is_bidding_open
+    OR _state.is_paused
+    OR _state.rtm_team_id IS NOT NULL
+    OR (_state.deadline_at IS NOT NULL AND now() > _state.deadline_at)
+    OR public.is_sealed_bid_auction(_tournament_id)
+    OR NOT EXISTS (
+      SELECT 1 FROM public.tournaments
+      WHERE id = _tournament_id AND is_auction_live = true
+    ) THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    SELECT * INTO _highest
+    FROM public.auction_bids
+    WHERE tournament_id = _tournament_id
+      AND player_id = _state.current_player_id
+      AND bid_at >= _state.lot_opened_at
+    ORDER BY bid_amount DESC, bid_at ASC
+    LIMIT 1;
+
+    _next_amount := CASE
+      WHEN _highest.id IS NULL THEN _state.lot_base_price
+      ELSE _highest.bid_amount
+        + public.get_bid_increment(_tournament_id, _state.current_player_id, _highest.bid_amount)
+    END;
+
+    SELECT ab.* INTO _auto
+    FROM public.auto_bids ab
+    WHERE ab.tournament_id = _tournament_id
+      AND ab.player_id = _state.current_player_id
+      AND ab.team_id IS DISTINCT FROM _highest.team_id
+      AND ab.max_amount >= _next_amount
+      AND public.get_team_max_bid(ab.team_id) >= _next_amount
+      AND public.check_squad_rules(ab.team_id, ab.player_id) IS NULL
+    ORDER BY ab.max_amount DESC, ab.created_at ASC
+    LIMIT 1;
+
+    EXIT WHEN _auto.id IS NULL;
+
+    INSERT INTO public.auction_bids (tournament_id, player_id, team_id, bid_amount)
+    VALUES (_tournament_id, _state.current_player_id, _auto.team_id, _next_amount);
+
+    _placed := _placed + 1;
+  END LOOP;
+
+  IF _placed > 0 THEN
+    SELECT bid_time INTO _bid_time
+    FROM public.auction_timer
+    WHERE tournament_id = _tournament_id;
+
+    UPDATE public.auction_state
+    SET deadline_at = GREATEST(deadline_at, now() + make_interval(secs => COALESCE(_bid_time, 10)))
+    WHERE id = _state.id;
+  END IF;
+
+  RETURN _placed;
+END;
+$$;
@@ -0,0 +1,270 @@
+-- Draft tournaments: team captains pick approved applicants in snake order,
+-- with no money involved
+ALTER TYPE public.tournament_type ADD VALUE IF NOT EXISTS 'Draft';
+
+-- Create draft_state table: one row per drafting tournament. team_order is
+-- the first-round order; current_pick counts from 1 across all rounds.
+CREATE TABLE public.draft_state (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL UNIQUE REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_order UUID[] NOT NULL,
+  current_pick INTEGER NOT NULL DEFAULT 1,
+  pick_deadline_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create draft_picks table: the draft board
+CREATE TABLE public.draft_picks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  pick_number INTEGER NOT NULL,
+  round INTEGER NOT NULL,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  picked_by UUID,
+  picked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tournament_id, pick_number),
+  UNIQUE (tournament_id, player_id)
+);
+
+ALTER TABLE public.draft_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.draft_picks ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies; writes go through start_draft and make_draft_pick
+CREATE POLICY "Draft state viewable by everyone"
+ON public.draft_state FOR SELECT
+USING (true);
+
+CREATE POLICY "Draft picks viewable by everyone"
+ON public.draft_picks FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_draft_state_updated_at
+BEFORE UPDATE ON public.draft_state
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.draft_state;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.draft_picks;
+
+-- Team on the clock for a pick: odd rounds follow team_order, even rounds
+-- run it backwards
+CREATE OR REPLACE FUNCTION public.get_draft_team(_team_order UUID[], _pick INTEGER)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT _team_order[
+    CASE
+      WHEN ((_pick - 1) / array_length(_team_order, 1)) % 2 = 0
+      THEN (_pick - 1) % array_length(_team_order, 1) + 1
+      ELSE array_length(_team_order, 1) - (_pick - 1) % array_length(_team_order, 1)
+    END
+  ]
+$$;
+
+-- Draw a random first-round order, put each captain on their own team and
+-- start the clock on the first pick
+CREATE OR REPLACE FUNCTION public.start_draft(_tournament_id UUID)
+RETURNS public.draft_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team_order UUID[];
+  _bid_time INTEGER;
+  _draft public.draft_state;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the draft.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id AND tournament_type::TEXT = 'Draft'
+  ) THEN
+    RAISE EXCEPTION 'NOT_DRAFT'
+      USING HINT = 'This tournament does not form teams by draft.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.draft_state WHERE tournament_id = _tournament_id) THEN
+    RAISE EXCEPTION 'DRAFT_ALREADY_STARTED'
+      USING HINT = 'The draft for this tournament has already started.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE tournament_id = _tournament_id AND captain_id IS NULL
+  ) OR (SELECT COUNT(*) FROM public.teams WHERE tournament_id = _tournament_id) < 2 THEN
+    RAISE EXCEPTION 'CAPTAINS_MISSING'
+      USING HINT = 'Create at least two teams and give every team a captain first.';
+  END IF;
+
+  SELECT array_agg(id ORDER BY random()) INTO _team_order
+  FROM public.teams
+  WHERE tournament_id = _tournament_id;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  SELECT t.id, t.captain_id, 0
+  FROM public.teams t
+  WHERE t.tournament_id = _tournament_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.team_players tp
+      JOIN public.teams tt ON tt.id = tp.team_id
+      WHERE tt.tournament_id = _tournament_id AND tp.player_id = t.captain_id
+    );
+
+  SELECT bid_time INTO _bid_time
+  FROM public.auction_timer
+  WHERE tournament_id = _tournament_id;
+
+  INSERT INTO public.draft_state (tournament_id, team_order, pick_deadline_at)
+  VALUES (_tournament_id, _team_order, now() + make_interval(secs => COALESCE(_bid_time, 10)))
+  RETURNING * INTO _draft;
+
+  RETURN _draft;
+END;
+$$;
+
+-- Pick an approved applicant for the team on the clock. The team's captain or
+-- owner picks within the timer; the organizer can pick for them at any time,
+-- which is how a lapsed pick gets made. The draft moves on to the next team
+-- with room and ends when every squad is full or nobody is left.
+CREATE OR REPLACE FUNCTION public.make_draft_pick(_tournament_id UUID, _player_id UUID)
+RETURNS public.draft_picks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _draft public.draft_state;
+  _team public.teams;
+  _players_per_team INTEGER;
+  _bid_time INTEGER;
+  _team_count INTEGER;
+  _next_pick INTEGER;
+  _next_team_id UUID;
+  _pick public.draft_picks;
+BEGIN
+  SELECT * INTO _draft
+  FROM public.draft_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _draft.id IS NULL THEN
+    RAISE EXCEPTION 'DRAFT_NOT_STARTED'
+      USING HINT = 'The organizer has not started the draft yet.';
+  END IF;
+
+  IF _draft.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'DRAFT_COMPLETE'
+      USING HINT = 'Every pick in this draft has been made.';
+  END IF;
+
+  SELECT * INTO _team
+  FROM public.teams
+  WHERE id = public.get_draft_team(_draft.team_order, _draft.current_pick);
+
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    IF auth.uid() IS DISTINCT FROM _team.captain_id
+      AND auth.uid() IS DISTINCT FROM _team.owner_id THEN
+      RAISE EXCEPTION 'NOT_ON_THE_CLOCK'
+        USING HINT = format('It is %s''s pick.', _team.name);
+    END IF;
+
+    IF _draft.pick_deadline_at IS NOT NULL AND now() > _draft.pick_deadline_at THEN
+      RAISE EXCEPTION 'PICK_WINDOW_CLOSED'
+        USING HINT = 'Time ran out on this pick. The organizer will make it.';
+    END IF;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tournament_applications
+    WHERE tournament_id = _tournament_id
+      AND player_id = _player_id
+      AND status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_NOT_APPROVED'
+      USING HINT = 'Only approved applicants can be drafted.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.team_players tp
+    JOIN public.teams t ON t.id = tp.team_id
+    WHERE t.tournament_id = _tournament_id AND tp.player_id = _player_id
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_ON_TEAM'
+      USING HINT = 'This player is already on a team.';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, sold_price)
+  VALUES (_team.id, _player_id, 0);
+
+  _team_count := array_length(_draft.team_order, 1);
+
+  INSERT INTO public.draft_picks (tournament_id, pick_number, round, team_id, player_id, picked_by)
+  VALUES (
+    _tournament_id,
+    _draft.current_pick,
+    (_draft.current_pick - 1) / _team_count + 1,
+    _team.id,
+    _player_id,
+    auth.uid()
+  )
+  RETURNING * INTO _pick;
+
+  SELECT players_per_team INTO _players_per_team
+  FROM public.tournaments
+  WHERE id = _tournament_id;
+
+  -- Skip teams whose squads are already full
+  _next_pick := _draft.current_pick;
+  _next_team_id := NULL;
+  FOR _i IN 1.._team_count LOOP
+    _next_pick := _next_pick + 1;
+    IF (
+      SELECT COUNT(*) FROM public.team_players
+      WHERE team_id = public.get_draft_team(_draft.team_order, _next_pick)
+    ) < _players_per_team THEN
+      _next_team_id := public.get_draft_team(_draft.team_order, _next_pick);
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF _next_team_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.tournament_applications ta
+    WHERE ta.tournament_id = _tournament_id
+      AND ta.status = 'approved'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.team_players tp
+        JOIN public.teams t ON t.id = tp.team_id
+        WHERE t.tournament_id = _tournament_id AND tp.player_id = ta.player_id
+      )
+  ) THEN
+    UPDATE public.draft_state
+    SET completed_at = now(),
+        pick_deadline_at = NULL
+    WHERE id = _draft.id;
+  ELSE
+    SELECT bid_time INTO _bid_time
+    FROM public.auction_timer
+    WHERE tournament_id = _tournament_id;
+
+    UPDATE public.draft_state
+    SET current_pick = _next_pick,
+        pick_deadline_at = now() + make_interval(secs => COALESCE(_bid_time, 10))
+    WHERE id = _draft.id;
+  END IF;
+
+  RETURN _pick;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Create every team of a Normal tournament in one go from a proposed split
+-- of approved applicants: _teams is [{ "name": text, "player_ids": [uuid] }].
+-- Players join team_players at no cost. Returns the number of teams created.
+CREATE OR REPLACE FUNCTION public.create_balanced_teams(_tournament_id UUID, _teams JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _tournament public.tournaments;
+  _entry JSONB;
+  _team_id UUID;
+  _player_ids UUID[];
+  _all_player_ids UUID[] := '{}';
+  _created INTEGER := 0;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can create teams.';
+  END IF;
+
+  SELECT * INTO _tournament
+  FROM public.tournaments
+  WHERE id = _tournament_id
+  FOR UPDATE;
+
+  IF _tournament.tournament_type::TEXT <> 'Normal' THEN
+    RAISE EXCEPTION 'NOT_NORMAL_TOURNAMENT'
+      USING HINT = 'Auction and draft tournaments form their teams through the auction or draft.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.teams WHERE tournament_id = _tournament_id) THEN
+    RAISE EXCEPTION 'TEAMS_ALREADY_EXIST'
+      USING HINT = 'This tournament already has teams.';
+  END IF;
+
+  IF jsonb_array_length(_teams) <> _tournament.number_of_teams THEN
+    RAISE EXCEPTION 'WRONG_TEAM_COUNT'
+      USING HINT = format('This tournament needs exactly %s teams.', _tournament.number_of_teams);
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(_teams) LOOP
+    SELECT COALESCE(array_agg(value::UUID), '{}') INTO _player_ids
+    FROM jsonb_array_elements_text(_entry -> 'player_ids');
+
+    IF COALESCE(btrim(_entry ->> 'name'), '') = '' THEN
+      RAISE EXCEPTION 'TEAM_NAME_REQUIRED'
+        USING HINT = 'Every team needs a name.';
+    END IF;
+
+    IF array_length(_player_ids, 1) > _tournament.players_per_team THEN
+      RAISE EXCEPTION 'SQUAD_FULL'
+        USING HINT = format('%s has more than %s players.', _entry ->> 'name', _tournament.players_per_team);
+    END IF;
+
+    IF _player_ids && _all_player_ids THEN
+      RAISE EXCEPTION 'PLAYER_ALREADY_ON_TEAM'
+        USING HINT = 'A player can only be on one team.';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(_player_ids) AS p(player_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.tournament_applications ta
+        WHERE ta.tournament_id = _tournament_id
+          AND ta.player_id = p.player_id
+          AND ta.status = 'approved'
+      )
+    ) THEN
+      RAISE EXCEPTION 'PLAYER_NOT_APPROVED'
+        USING HINT = 'Only approved applicants can be placed on a team.';
+    END IF;
+
+    _all_player_ids := _all_player_ids || _player_ids;
+
+    INSERT INTO public.teams (tournament_id, name, budget_remaining, owner_id)
+    VALUES (_tournament_id, btrim(_entry ->> 'name'), _tournament.team_budget, auth.uid())
+    RETURNING id INTO _team_id;
+
+    INSERT INTO public.team_players (team_id, player_id, sold_price)
+    SELECT _team_id, player_id, 0
+    FROM unnest(_player_ids) AS p(player_id);
+
+    _created := _created + 1;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
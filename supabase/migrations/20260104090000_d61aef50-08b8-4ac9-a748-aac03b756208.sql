@@ -0,0 +1,151 @@
+-- Pre-auction readiness report. One row per check; blocking checks must pass
+-- before the auction can go live, the others are warnings.
+CREATE OR REPLACE FUNCTION public.get_auction_readiness(_tournament_id UUID)
+RETURNS TABLE (check_key TEXT, passed BOOLEAN, blocking BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _tournament public.tournaments;
+  _team_count INTEGER;
+  _ownerless INTEGER;
+  _filled INTEGER;
+  _open_slots INTEGER;
+  _pool_size INTEGER;
+  _reserve NUMERIC;
+  _short_purses TEXT;
+  _config public.auction_config;
+  _category_pool INTEGER;
+BEGIN
+  SELECT * INTO _tournament FROM public.tournaments WHERE id = _tournament_id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE owner_id IS NULL)
+  INTO _team_count, _ownerless
+  FROM public.teams
+  WHERE tournament_id = _tournament_id;
+
+  check_key := 'teams';
+  passed := _team_count = _tournament.number_of_teams;
+  blocking := true;
+  message := format('%s of %s teams created.', _team_count, _tournament.number_of_teams);
+  RETURN NEXT;
+
+  check_key := 'owners';
+  passed := _team_count > 0 AND _ownerless = 0;
+  blocking := true;
+  message := CASE
+    WHEN _team_count = 0 THEN 'No teams to assign owners to.'
+    WHEN _ownerless = 0 THEN 'Every team has an owner.'
+    ELSE format('%s team(s) have no owner.', _ownerless)
+  END;
+  RETURN NEXT;
+
+  SELECT COUNT(*) INTO _filled
+  FROM public.team_players tp
+  JOIN public.teams t ON t.id = tp.team_id
+  WHERE t.tournament_id = _tournament_id;
+
+  _open_slots := GREATEST(_tournament.number_of_teams * _tournament.players_per_team - _filled, 0);
+
+  SELECT COUNT(*) INTO _pool_size
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id
+    AND is_included = true
+    AND status IN ('upcoming', 'unsold');
+
+  check_key := 'pool';
+  passed := _pool_size >= _open_slots;
+  blocking := true;
+  message := format('%s players in the pool for %s open squad slots.', _pool_size, _open_slots);
+  RETURN NEXT;
+
+  -- Each team may take up to max_players from a category
+  FOR _config IN
+    SELECT * FROM public.auction_config
+    WHERE tournament_id = _tournament_id AND is_active = true
+    ORDER BY category
+  LOOP
+    SELECT COUNT(*) INTO _category_pool
+    FROM public.auction_pool
+    WHERE tournament_id = _tournament_id
+      AND is_included = true
+      AND status IN ('upcoming', 'unsold')
+      AND auction_category = _config.category;
+
+    check_key := 'category:' || _config.category;
+    passed := _category_pool >= _config.max_players * _tournament.number_of_teams;
+    blocking := false;
+    message := format(
+      '%s: %s players in the pool, teams can take up to %s.',
+      _config.category, _category_pool, _config.max_players * _tournament.number_of_teams
+    );
+    RETURN NEXT;
+  END LOOP;
+
+  -- Every purse must still cover the reserve price of each empty slot
+  _reserve := public.get_slot_reserve_price(_tournament_id);
+
+  SELECT string_agg(t.name, ', ' ORDER BY t.name) INTO _short_purses
+  FROM public.teams t
+  WHERE t.tournament_id = _tournament_id
+    AND COALESCE(t.budget_remaining, 0) < _reserve * (
+      _tournament.players_per_team
+      - (SELECT COUNT(*) FROM public.team_players tp WHERE tp.team_id = t.id)
+    );
+
+  check_key := 'purses';
+  passed := _short_purses IS NULL;
+  blocking := true;
+  message := CASE
+    WHEN _short_purses IS NULL THEN 'Every purse covers the minimum spend for its empty slots.'
+    ELSE format('Purse too small to fill the squad at the minimum price: %s.', _short_purses)
+  END;
+  RETURN NEXT;
+
+  check_key := 'timer';
+  passed := EXISTS (
+    SELECT 1 FROM public.auction_timer
+    WHERE tournament_id = _tournament_id AND is_active = true
+  );
+  blocking := true;
+  message := CASE
+    WHEN passed THEN 'Bid timer configured.'
+    ELSE 'No bid timer configured.'
+  END;
+  RETURN NEXT;
+END;
+$$;
+
+-- Refuse to take an auction live while a blocking readiness check fails
+CREATE OR REPLACE FUNCTION public.enforce_auction_readiness()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _failed TEXT;
+BEGIN
+  IF NEW.is_auction_live IS TRUE AND OLD.is_auction_live IS NOT TRUE THEN
+    SELECT string_agg(r.message, ' ' ORDER BY r.check_key) INTO _failed
+    FROM public.get_auction_readiness(NEW.id) r
+    WHERE r.blocking AND NOT r.passed;
+
+    IF _failed IS NOT NULL THEN
+      RAISE EXCEPTION 'AUCTION_NOT_READY'
+        USING HINT = _failed;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_auction_readiness_on_go_live
+BEFORE UPDATE OF is_auction_live ON public.tournaments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_auction_readiness();
+
+REVOKE EXECUTE ON FUNCTION public.enforce_auction_readiness() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,27 @@
+-- Create shortlists table: players a team owner has starred ahead of the
+-- auction. Private to the team owner and not published to Realtime.
+CREATE TABLE public.shortlists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, player_id)
+);
+
+ALTER TABLE public.shortlists ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for shortlists
+CREATE POLICY "Owners can manage their shortlists"
+ON public.shortlists FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM teams t
+  WHERE t.id = shortlists.team_id
+  AND t.owner_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM teams t
+  WHERE t.id = shortlists.team_id
+  AND t.owner_id = auth.uid()
+  AND t.tournament_id = shortlists.tournament_id
+));
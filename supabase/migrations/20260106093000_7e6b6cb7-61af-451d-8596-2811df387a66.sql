@@ -0,0 +1,414 @@
+-- Post-auction trade window, set by the organizer. Trades can only be
+-- proposed, accepted and approved between these two times.
+ALTER TABLE public.tournaments
+ADD COLUMN trade_window_opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN trade_window_closes_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT tournaments_trade_window_check
+  CHECK (trade_window_closes_at IS NULL OR trade_window_opens_at IS NULL OR trade_window_closes_at > trade_window_opens_at);
+
+-- Create trades table: one owner's offer to another. The proposing team
+-- gives offered_player_id and gets requested_player_id; either may be empty
+-- when cash makes up the other side. cash_amount always moves against the
+-- player flow: the proposer pays when they request a player, otherwise the
+-- receiver pays. Rows are written by the trade RPCs only.
+-- status: proposed -> accepted -> approved, or declined / rejected / cancelled
+CREATE TABLE public.trades (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  proposing_team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  receiving_team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  offered_player_id UUID,
+  requested_player_id UUID,
+  cash_amount NUMERIC NOT NULL DEFAULT 0 CHECK (cash_amount >= 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'accepted', 'approved', 'declined', 'rejected', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (proposing_team_id <> receiving_team_id),
+  CHECK (offered_player_id IS NOT NULL OR requested_player_id IS NOT NULL),
+  CHECK ((offered_player_id IS NOT NULL AND requested_player_id IS NOT NULL) OR cash_amount > 0)
+);
+
+ALTER TABLE public.trades ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for trades
+CREATE POLICY "Trades viewable by involved owners and organizers"
+ON public.trades FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM teams t
+    WHERE t.id IN (trades.proposing_team_id, trades.receiving_team_id)
+    AND t.owner_id = auth.uid()
+  )
+  OR public.is_tournament_organizer(trades.tournament_id, auth.uid())
+);
+
+CREATE TRIGGER update_trades_updated_at
+BEFORE UPDATE ON public.trades
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.is_trade_window_open(_tournament_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = _tournament_id
+      AND is_auction_live = false
+      AND trade_window_opens_at <= now()
+      AND trade_window_closes_at > now()
+  )
+$$;
+
+-- Does the team's current squad break its tournament's limits? Returns the
+-- reason, or NULL when the squad is valid. The whole-squad version of
+-- check_squad_rules: squad size, auction_config.max_players per category,
+-- squad_rules maximums, and whether the open slots can still cover every
+-- squad_rules minimum.
+CREATE OR REPLACE FUNCTION public.check_team_squad(_team_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _players_per_team INTEGER;
+  _config public.auction_config;
+  _rule public.squad_rules;
+  _count INTEGER;
+  _squad_size INTEGER;
+  _type_shortfall INTEGER := 0;
+  _category_shortfall INTEGER := 0;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _team_id;
+
+  SELECT players_per_team INTO _players_per_team
+  FROM public.tournaments
+  WHERE id = _team.tournament_id;
+
+  SELECT COUNT(*) INTO _squad_size FROM public.team_players WHERE team_id = _team_id;
+
+  IF _squad_size > _players_per_team THEN
+    RETURN format('%s would have more than %s players.', _team.name, _players_per_team);
+  END IF;
+
+  FOR _config IN
+    SELECT * FROM public.auction_config
+    WHERE tournament_id = _team.tournament_id AND is_active = true
+  LOOP
+    IF (
+      SELECT COUNT(*) FROM public.get_team_squad(_team_id) s
+      WHERE s.auction_category = _config.category
+    ) > _config.max_players THEN
+      RETURN format('%s would have more than %s %s players.', _team.name, _config.max_players, _config.category);
+    END IF;
+  END LOOP;
+
+  FOR _rule IN
+    SELECT * FROM public.squad_rules WHERE tournament_id = _team.tournament_id
+  LOOP
+    SELECT COUNT(*) INTO _count
+    FROM public.get_team_squad(_team_id) s
+    WHERE CASE WHEN _rule.rule_type = 'player_type'
+      THEN s.player_type = _rule.target
+      ELSE s.player_category = _rule.target
+    END;
+
+    IF _rule.max_count IS NOT NULL AND _count > _rule.max_count THEN
+      RETURN format(
+        '%s can have at most %s %s players.',
+        _team.name,
+        _rule.max_count,
+        CASE WHEN _rule.rule_type = 'player_type'
+          THEN initcap(replace(_rule.target, '_', ' '))
+          ELSE upper(replace(_rule.target, '_plus', '+'))
+        END
+      );
+    END IF;
+
+    IF _rule.min_count IS NOT NULL AND _count < _rule.min_count THEN
+      IF _rule.rule_type = 'player_type' THEN
+        _type_shortfall := _type_shortfall + (_rule.min_count - _count);
+      ELSE
+        _category_shortfall := _category_shortfall + (_rule.min_count - _count);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF GREATEST(_type_shortfall, _category_shortfall) > _players_per_team - _squad_size THEN
+    RETURN format('%s would have too few slots left to meet the squad minimums.', _team.name);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_team_squad(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Offer a trade to another team's owner
+CREATE OR REPLACE FUNCTION public.propose_trade(
+  _proposing_team_id UUID,
+  _receiving_team_id UUID,
+  _offered_player_id UUID DEFAULT NULL,
+  _requested_player_id UUID DEFAULT NULL,
+  _cash_amount NUMERIC DEFAULT 0,
+  _message TEXT DEFAULT NULL
+)
+RETURNS public.trades
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+  _trade public.trades;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _proposing_team_id;
+
+  IF _team.id IS NULL OR _team.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the team owner can propose trades for this team.';
+  END IF;
+
+  IF NOT public.is_trade_window_open(_team.tournament_id) THEN
+    RAISE EXCEPTION 'TRADE_WINDOW_CLOSED'
+      USING HINT = 'Trades can only be made while the trade window is open.';
+  END IF;
+
+  IF _receiving_team_id = _proposing_team_id OR NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = _receiving_team_id AND tournament_id = _team.tournament_id
+  ) THEN
+    RAISE EXCEPTION 'INVALID_TRADE'
+      USING HINT = 'Pick another team in this tournament to trade with.';
+  END IF;
+
+  IF (_offered_player_id IS NULL AND _requested_player_id IS NULL)
+    OR COALESCE(_cash_amount, 0) < 0
+    OR ((_offered_player_id IS NULL OR _requested_player_id IS NULL) AND COALESCE(_cash_amount, 0) = 0) THEN
+    RAISE EXCEPTION 'INVALID_TRADE'
+      USING HINT = 'Trade a player for a player, or a player for cash.';
+  END IF;
+
+  IF _offered_player_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.team_players
+    WHERE team_id = _proposing_team_id AND player_id = _offered_player_id
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_NOT_ON_TEAM'
+      USING HINT = 'The offered player is not on your team.';
+  END IF;
+
+  IF _requested_player_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.team_players
+    WHERE team_id = _receiving_team_id AND player_id = _requested_player_id
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_NOT_ON_TEAM'
+      USING HINT = 'The requested player is not on the other team.';
+  END IF;
+
+  INSERT INTO public.trades (
+    tournament_id, proposing_team_id, receiving_team_id,
+    offered_player_id, requested_player_id, cash_amount, message
+  )
+  VALUES (
+    _team.tournament_id, _proposing_team_id, _receiving_team_id,
+    _offered_player_id, _requested_player_id, COALESCE(_cash_amount, 0), NULLIF(trim(_message), '')
+  )
+  RETURNING * INTO _trade;
+
+  RETURN _trade;
+END;
+$$;
+
+-- The receiving owner accepts or declines; an accepted trade waits for the
+-- organizer
+CREATE OR REPLACE FUNCTION public.respond_to_trade(_trade_id UUID, _accept BOOLEAN)
+RETURNS public.trades
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _trade public.trades;
+BEGIN
+  SELECT * INTO _trade FROM public.trades WHERE id = _trade_id FOR UPDATE;
+
+  IF _trade.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = _trade.receiving_team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the owner of the receiving team can respond to this trade.';
+  END IF;
+
+  IF _trade.status <> 'proposed' THEN
+    RAISE EXCEPTION 'TRADE_NOT_PENDING'
+      USING HINT = 'This trade has already been answered.';
+  END IF;
+
+  IF _accept AND NOT public.is_trade_window_open(_trade.tournament_id) THEN
+    RAISE EXCEPTION 'TRADE_WINDOW_CLOSED'
+      USING HINT = 'Trades can only be made while the trade window is open.';
+  END IF;
+
+  UPDATE public.trades
+  SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END
+  WHERE id = _trade_id
+  RETURNING * INTO _trade;
+
+  RETURN _trade;
+END;
+$$;
+
+-- The proposer withdraws a trade the organizer hasn't decided yet
+CREATE OR REPLACE FUNCTION public.cancel_trade(_trade_id UUID)
+RETURNS public.trades
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _trade public.trades;
+BEGIN
+  SELECT * INTO _trade FROM public.trades WHERE id = _trade_id FOR UPDATE;
+
+  IF _trade.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = _trade.proposing_team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the owner of the proposing team can cancel this trade.';
+  END IF;
+
+  IF _trade.status NOT IN ('proposed', 'accepted') THEN
+    RAISE EXCEPTION 'TRADE_NOT_PENDING'
+      USING HINT = 'This trade is already closed.';
+  END IF;
+
+  UPDATE public.trades
+  SET status = 'cancelled'
+  WHERE id = _trade_id
+  RETURNING * INTO _trade;
+
+  RETURN _trade;
+END;
+$$;
+
+-- The organizer approves or rejects an accepted trade. Approval moves the
+-- players and the cash in one transaction and fails as a whole if either
+-- squad would break the squad rules or either purse would go negative.
+CREATE OR REPLACE FUNCTION public.decide_trade(_trade_id UUID, _approve BOOLEAN)
+RETURNS public.trades
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _trade public.trades;
+  _payer_id UUID;
+  _payee_id UUID;
+  _violation TEXT;
+BEGIN
+  SELECT * INTO _trade FROM public.trades WHERE id = _trade_id FOR UPDATE;
+
+  IF _trade.id IS NULL OR NOT public.is_tournament_organizer(_trade.tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can approve trades.';
+  END IF;
+
+  IF _trade.status <> 'accepted' THEN
+    RAISE EXCEPTION 'TRADE_NOT_PENDING'
+      USING HINT = 'Only trades both owners agreed to can be approved or rejected.';
+  END IF;
+
+  IF NOT _approve THEN
+    UPDATE public.trades
+    SET status = 'rejected'
+    WHERE id = _trade_id
+    RETURNING * INTO _trade;
+
+    RETURN _trade;
+  END IF;
+
+  IF NOT public.is_trade_window_open(_trade.tournament_id) THEN
+    RAISE EXCEPTION 'TRADE_WINDOW_CLOSED'
+      USING HINT = 'Trades can only be approved while the trade window is open.';
+  END IF;
+
+  -- Lock both purses in a fixed order so crossing trades can't deadlock
+  PERFORM 1 FROM public.teams
+  WHERE id IN (_trade.proposing_team_id, _trade.receiving_team_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF _trade.offered_player_id IS NOT NULL THEN
+    UPDATE public.team_players
+    SET team_id = _trade.receiving_team_id
+    WHERE team_id = _trade.proposing_team_id AND player_id = _trade.offered_player_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PLAYER_NOT_ON_TEAM'
+        USING HINT = 'The offered player is no longer on the proposing team.';
+    END IF;
+  END IF;
+
+  IF _trade.requested_player_id IS NOT NULL THEN
+    UPDATE public.team_players
+    SET team_id = _trade.proposing_team_id
+    WHERE team_id = _trade.receiving_team_id AND player_id = _trade.requested_player_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'PLAYER_NOT_ON_TEAM'
+        USING HINT = 'The requested player is no longer on the receiving team.';
+    END IF;
+  END IF;
+
+  IF _trade.cash_amount > 0 THEN
+    IF _trade.requested_player_id IS NOT NULL THEN
+      _payer_id := _trade.proposing_team_id;
+      _payee_id := _trade.receiving_team_id;
+    ELSE
+      _payer_id := _trade.receiving_team_id;
+      _payee_id := _trade.proposing_team_id;
+    END IF;
+
+    PERFORM public.adjust_team_budget(_payer_id, -_trade.cash_amount, 'trade');
+    PERFORM public.adjust_team_budget(_payee_id, _trade.cash_amount, 'trade');
+  END IF;
+
+  _violation := COALESCE(
+    public.check_team_squad(_trade.proposing_team_id),
+    public.check_team_squad(_trade.receiving_team_id)
+  );
+
+  IF _violation IS NOT NULL THEN
+    RAISE EXCEPTION 'SQUAD_RULE_VIOLATION'
+      USING HINT = _violation;
+  END IF;
+
+  UPDATE public.trades
+  SET status = 'approved'
+  WHERE id = _trade_id
+  RETURNING * INTO _trade;
+
+  -- Other open trades for the players that just moved can no longer happen
+  UPDATE public.trades
+  SET status = 'cancelled'
+  WHERE tournament_id = _trade.tournament_id
+    AND id <> _trade_id
+    AND status IN ('proposed', 'accepted')
+    AND (
+      offered_player_id IN (_trade.offered_player_id, _trade.requested_player_id)
+      OR requested_player_id IN (_trade.offered_player_id, _trade.requested_player_id)
+    );
+
+  RETURN _trade;
+END;
+$$;
@@ -0,0 +1,143 @@
+-- Create purse_ledger table: every change to a team's budget_remaining,
+-- written by the record_purse_change trigger on teams. amount is the signed
+-- change and balance_after the purse it left, so the amounts of a team
+-- always add up to its budget_remaining.
+-- kind: initial, sale, sale reversal, retention, retention release, trade,
+-- top-up, penalty, or correction for a direct edit of the purse
+CREATE TABLE public.purse_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL,
+  kind TEXT NOT NULL,
+  reason TEXT,
+  balance_after NUMERIC NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX purse_ledger_team_id_created_at_idx ON public.purse_ledger (team_id, created_at);
+
+ALTER TABLE public.purse_ledger ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for purse_ledger
+CREATE POLICY "Purse ledger viewable by everyone"
+ON public.purse_ledger FOR SELECT
+USING (true);
+
+-- Opening entries for teams created before the ledger
+INSERT INTO public.purse_ledger (tournament_id, team_id, amount, kind, reason, balance_after, created_at)
+SELECT tournament_id, id, budget_remaining, 'initial', 'Balance when the ledger started', budget_remaining, created_at
+FROM public.teams;
+
+-- Log every purse change. adjust_team_budget labels its own changes through
+-- the app.purse_kind / app.purse_reason settings; anything else that moves
+-- the purse (an edit of the teams row) is logged as a correction.
+CREATE OR REPLACE FUNCTION public.record_purse_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.purse_ledger (tournament_id, team_id, amount, kind, balance_after, created_by)
+    VALUES (NEW.tournament_id, NEW.id, NEW.budget_remaining, 'initial', NEW.budget_remaining, auth.uid());
+  ELSIF NEW.budget_remaining IS DISTINCT FROM OLD.budget_remaining THEN
+    INSERT INTO public.purse_ledger (tournament_id, team_id, amount, kind, reason, balance_after, created_by)
+    VALUES (
+      NEW.tournament_id,
+      NEW.id,
+      NEW.budget_remaining - OLD.budget_remaining,
+      COALESCE(NULLIF(current_setting('app.purse_kind', true), ''), 'correction'),
+      NULLIF(current_setting('app.purse_reason', true), ''),
+      NEW.budget_remaining,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_team_purse_change
+AFTER INSERT OR UPDATE OF budget_remaining ON public.teams
+FOR EACH ROW
+EXECUTE FUNCTION public.record_purse_change();
+
+-- Same entry point as before, now with an optional reason for the ledger.
+-- Existing callers keep passing three arguments.
+DROP FUNCTION public.adjust_team_budget(UUID, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.adjust_team_budget(
+  _team_id UUID,
+  _delta NUMERIC,
+  _kind TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _remaining NUMERIC;
+BEGIN
+  PERFORM set_config('app.purse_kind', _kind, true);
+  PERFORM set_config('app.purse_reason', COALESCE(_reason, ''), true);
+
+  UPDATE public.teams
+  SET budget_remaining = budget_remaining + _delta
+  WHERE id = _team_id
+  RETURNING budget_remaining INTO _remaining;
+
+  -- Later edits in the same transaction are not ours to label
+  PERFORM set_config('app.purse_kind', '', true);
+  PERFORM set_config('app.purse_reason', '', true);
+
+  IF _remaining < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_PURSE'
+      USING HINT = format('This %s would leave the team with %s.', _kind, _remaining);
+  END IF;
+
+  RETURN _remaining;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_team_budget(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Organizer top-up (positive _amount) or penalty (negative) with a reason
+CREATE OR REPLACE FUNCTION public.adjust_team_purse(_team_id UUID, _amount NUMERIC, _reason TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _team public.teams;
+BEGIN
+  SELECT * INTO _team FROM public.teams WHERE id = _team_id;
+
+  IF _team.id IS NULL OR NOT public.is_tournament_organizer(_team.tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can adjust purses.';
+  END IF;
+
+  IF COALESCE(_amount, 0) = 0 THEN
+    RAISE EXCEPTION 'INVALID_PURSE_ADJUSTMENT'
+      USING HINT = 'Enter an amount to add or take away.';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'INVALID_PURSE_ADJUSTMENT'
+      USING HINT = 'Give a reason so owners can see why their purse changed.';
+  END IF;
+
+  RETURN public.adjust_team_budget(
+    _team_id,
+    _amount,
+    CASE WHEN _amount > 0 THEN 'top-up' ELSE 'penalty' END,
+    trim(_reason)
+  );
+END;
+$$;
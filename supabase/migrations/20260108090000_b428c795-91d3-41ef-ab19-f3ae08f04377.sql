@@ -0,0 +1,140 @@
+-- A pending Right to Match belongs to the lot it was offered on: nominating
+-- the next player waits for the decision, and a new lot never inherits it
+CREATE OR REPLACE FUNCTION public.nominate_player(
+  _tournament_id UUID,
+  _player_id UUID,
+  _base_price NUMERIC DEFAULT NULL
+)
+RETURNS public.auction_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _lot public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.is_bidding_open THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Close bidding on the current player first.';
+  END IF;
+
+  IF _state.rtm_team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'RTM_PENDING'
+      USING HINT = 'The previous team is still deciding whether to match.';
+  END IF;
+
+  SELECT * INTO _lot
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id AND player_id = _player_id
+  FOR UPDATE;
+
+  IF _lot.id IS NULL OR NOT _lot.is_included THEN
+    RAISE EXCEPTION 'PLAYER_NOT_IN_POOL'
+      USING HINT = 'Add this player to the auction pool first.';
+  END IF;
+
+  IF _lot.status = 'sold' THEN
+    RAISE EXCEPTION 'PLAYER_ALREADY_SOLD'
+      USING HINT = 'This player already belongs to a team.';
+  END IF;
+
+  -- A nominated player who never went to bidding returns to the queue
+  UPDATE public.auction_pool
+  SET status = 'upcoming'
+  WHERE tournament_id = _tournament_id
+    AND status = 'bidding'
+    AND player_id <> _player_id;
+
+  UPDATE public.auction_pool
+  SET status = 'bidding'
+  WHERE id = _lot.id;
+
+  INSERT INTO public.auction_state (
+    tournament_id, current_player_id, lot_base_price,
+    is_bidding_open, lot_opened_at, bidding_opened_at
+  )
+  VALUES (_tournament_id, _player_id, COALESCE(_base_price, _lot.base_price), false, NULL, NULL)
+  ON CONFLICT (tournament_id) DO UPDATE
+  SET current_player_id = EXCLUDED.current_player_id,
+      lot_base_price = EXCLUDED.lot_base_price,
+      is_bidding_open = false,
+      lot_opened_at = NULL,
+      bidding_opened_at = NULL,
+      deadline_at = NULL,
+      is_paused = false,
+      paused_remaining = NULL,
+      sealed_bid_count = 0,
+      sealed_revealed_at = NULL,
+      rtm_team_id = NULL,
+      rtm_deadline_at = NULL
+  RETURNING * INTO _state;
+
+  RETURN _state;
+END;
+$$;
+
+-- Never sell off a lot without a winning bid
+CREATE OR REPLACE FUNCTION public.exercise_rtm(_tournament_id UUID, _match BOOLEAN)
+RETURNS public.team_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _highest public.auction_bids;
+BEGIN
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.rtm_team_id IS NULL THEN
+    RAISE EXCEPTION 'NO_RTM_PENDING'
+      USING HINT = 'There is no Right to Match decision to make.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = _state.rtm_team_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_TEAM_OWNER'
+      USING HINT = 'Only the previous team''s owner can use Right to Match.';
+  END IF;
+
+  IF now() > _state.rtm_deadline_at THEN
+    RAISE EXCEPTION 'RTM_EXPIRED'
+      USING HINT = 'The time to match this bid has run out.';
+  END IF;
+
+  SELECT * INTO _highest
+  FROM public.auction_bids
+  WHERE tournament_id = _tournament_id
+    AND player_id = _state.current_player_id
+    AND bid_at >= _state.lot_opened_at
+  ORDER BY bid_amount DESC, bid_at ASC
+  LIMIT 1;
+
+  IF _highest.id IS NULL THEN
+    RAISE EXCEPTION 'NO_BIDS'
+      USING HINT = 'There is no winning bid to match.';
+  END IF;
+
+  IF _match THEN
+    RETURN public.sell_current_lot(_state, _state.rtm_team_id, _highest.bid_amount, true);
+  END IF;
+
+  RETURN public.sell_current_lot(_state, _highest.team_id, _highest.bid_amount, false);
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Owners only read and clear their auto bids directly; set_auto_bid does
+-- every write and checks the player belongs to the team's tournament. A
+-- FOR ALL policy let an owner write a row under any tournament_id, which
+-- run_auto_bids would then act on.
+DROP POLICY "Owners can manage their auto bids" ON public.auto_bids;
+
+CREATE POLICY "Owners can view their auto bids"
+ON public.auto_bids FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM teams t
+  WHERE t.id = auto_bids.team_id
+  AND t.owner_id = auth.uid()
+));
+
+CREATE POLICY "Owners can delete their auto bids"
+ON public.auto_bids FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM teams t
+  WHERE t.id = auto_bids.team_id
+  AND t.owner_id = auth.uid()
+));
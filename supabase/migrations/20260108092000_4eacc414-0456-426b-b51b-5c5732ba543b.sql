@@ -0,0 +1,74 @@
+-- A sale can't be undone once the player has been traded: the refund would
+-- go to a team the player has left while they stay on the new team.
+-- auction_pool keeps the buyer and price from the auction; trades records
+-- where the player went afterwards.
+CREATE OR REPLACE FUNCTION public.undo_last_sale(_tournament_id UUID)
+RETURNS public.auction_pool
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _state public.auction_state;
+  _entry public.auction_pool;
+BEGIN
+  IF NOT public.is_tournament_organizer(_tournament_id, auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ORGANIZER'
+      USING HINT = 'Only the tournament organizer can run the auction.';
+  END IF;
+
+  SELECT * INTO _state
+  FROM public.auction_state
+  WHERE tournament_id = _tournament_id
+  FOR UPDATE;
+
+  IF _state.current_player_id IS NOT NULL THEN
+    RAISE EXCEPTION 'LOT_IN_PROGRESS'
+      USING HINT = 'Finish the current player before undoing a sale.';
+  END IF;
+
+  SELECT * INTO _entry
+  FROM public.auction_pool
+  WHERE tournament_id = _tournament_id
+    AND status = 'sold'
+  ORDER BY sold_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _entry.id IS NULL THEN
+    RAISE EXCEPTION 'NO_SALE_TO_UNDO'
+      USING HINT = 'No player has been sold yet.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.trades
+    WHERE tournament_id = _tournament_id
+      AND status = 'approved'
+      AND _entry.player_id IN (offered_player_id, requested_player_id)
+  ) THEN
+    RAISE EXCEPTION 'PLAYER_TRADED'
+      USING HINT = 'This player has been traded since the sale, so it can no longer be undone.';
+  END IF;
+
+  DELETE FROM public.team_players
+  WHERE team_id = _entry.sold_team_id
+    AND player_id = _entry.player_id;
+
+  PERFORM public.adjust_team_budget(_entry.sold_team_id, _entry.sold_price, 'sale reversal');
+
+  INSERT INTO public.auction_audit_log (tournament_id, action, player_id, team_id, amount, performed_by)
+  VALUES (_tournament_id, 'undo_sale', _entry.player_id, _entry.sold_team_id, _entry.sold_price, auth.uid());
+
+  UPDATE public.auction_pool
+  SET status = 'upcoming',
+      sold_team_id = NULL,
+      sold_price = NULL,
+      sold_at = NULL,
+      sold_round = NULL,
+      rtm_used = false
+  WHERE id = _entry.id
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;